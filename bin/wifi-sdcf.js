@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import {register} from "node:module";
+import {fileURLToPath} from "node:url";
+
+// Sources are TypeScript, same loader as `npm start` uses. Config of the package is used from any working directory,
+// types are checked at build time, not on every start
+process.env.TS_NODE_PROJECT ??= fileURLToPath(new URL("../tsconfig.json", import.meta.url));
+process.env.TS_NODE_TRANSPILE_ONLY ??= "true";
+register("ts-node/esm", new URL("../", import.meta.url));
+await import("../src/cli/wifi-sdcf.ts");
@@ -6,15 +6,38 @@ import {PASSWORD} from "./constants/PASSWORD.ts";
 import {ResolvablePromise} from "./utils/ResolvablePromise.ts";
 import {READ_TIMEOUT} from "./constants/READ_TIMEOUT.ts";
 import type {IFileSystemAdapter} from "./fs/types/IFileSystemAdapter.ts";
-import {FAT32Adapter} from "./fs/FAT32Adapter.ts";
-import {MBRUtility} from "./fs/MBRUtility.ts";
-import {EFileSystems} from "./fs/types/EFileSystems.ts";
-import {UnsupportedFileSystemError} from "./fs/errors/UnsupportedFileSystemError.ts";
+import {openFileSystem} from "./utils/openFileSystem.ts";
+import type {IBlockDevice} from "./types/IBlockDevice.ts";
 import {TimeoutError} from "./errors/TimeoutError.ts";
 import {parseCardInfo} from "./utils/parseCardInfo.ts";
+import {TransferWindow} from "./network/TransferWindow.ts";
+import {ReadReassembler} from "./network/ReadReassembler.ts";
 import type {ICardInfo} from "./types/ICardInfo.ts";
-
-export class Card implements Disposable{
+import type {ICardOptions} from "./types/ICardOptions.ts";
+import type {ICredentials} from "./types/ICredentials.ts";
+import {EPasswordType} from "./types/EPasswordType.ts";
+import {parsePasswordType} from "./utils/parsePasswordType.ts";
+import {AuthenticationError} from "./errors/AuthenticationError.ts";
+import type {IWifiConfig} from "./types/IWifiConfig.ts";
+import type {IWifiNetwork} from "./types/IWifiNetwork.ts";
+import {parseWifiConfig} from "./utils/parseWifiConfig.ts";
+import {parseWifiNetworks} from "./utils/parseWifiNetworks.ts";
+import {serializeWifiConfig} from "./utils/serializeWifiConfig.ts";
+import {CommandFailedError} from "./errors/CommandFailedError.ts";
+import {MalformedPacketError} from "./errors/MalformedPacketError.ts";
+import {LbaOutOfRangeError} from "./errors/LbaOutOfRangeError.ts";
+import type {WifiSdcfError} from "./errors/WifiSdcfError.ts";
+import type {INewDataNotification} from "./types/INewDataNotification.ts";
+import {parseNewDataNotification} from "./utils/parseNewDataNotification.ts";
+import {ImageDumper} from "./imaging/ImageDumper.ts";
+import type {IDumpImageOptions} from "./imaging/types/IDumpImageOptions.ts";
+import type {IImageManifest} from "./imaging/types/IImageManifest.ts";
+import {InvalidArgumentError} from "./errors/InvalidArgumentError.ts";
+import type {ICommandResponses} from "./types/ICommandResponses.ts";
+
+export class Card implements Disposable, IBlockDevice {
+
+	public readonly blockSize: number = 512;
 
 	protected transferId: number = 93;
 
@@ -22,16 +45,54 @@ export class Card implements Disposable{
 
 	protected readInfoIds: number[] = [];
 
+	/**
+	 * Responses to Wi-Fi commands carry no transfer ID, so they are matched in order of requests, per command code.
+	 */
+	protected commandIds: {[cmd: number]: number[]} = {};
+
+	protected credentials: ICredentials;
+
+	protected port: number;
+
+	protected newDataSubscribers: ((notification: INewDataNotification) => void)[] = [];
+
+	/**
+	 * Window and retransmission timeout shared by all pipelined reads, so that what was learned about the link
+	 * by one transfer is used by the next one.
+	 */
+	protected transferWindow: TransferWindow = new TransferWindow();
+
+	/**
+	 * Fragments of read responses collected so far, by transfer ID.
+	 */
+	protected readReassemblers: {[transferId: number]: ReadReassembler | undefined} = {};
+
+	/**
+	 * Current IP address, changed by changeIp() when the card gets a new DHCP lease.
+	 */
+	protected address: string;
+
+	protected messageListener = (msg: Buffer, rinfo: dgram.RemoteInfo): void => this.onMessage(msg, rinfo);
+
 	constructor(
-		public readonly ip: string,
+		ip: string,
 		public readonly mac?: string,
 		public readonly type?: "SD" | "CF",
 		public readonly version?: string,
 		public readonly capacity?: number,
 		public readonly apMode?: boolean,
-		public readonly subVersion?: string
+		public readonly subVersion?: string,
+		options: ICardOptions = {},
 	) {
-		udpServerInstance.subscribeForCard(this.ip, (msg, rinfo) => this.onMessage(msg, rinfo));
+		this.credentials = this.validateCredentials(options.credentials ?? {username: USERNAME, password: PASSWORD});
+		this.port = options.port ?? CARD_PORT;
+		this.address = ip;
+		udpServerInstance.subscribeForCard(this.address, this.messageListener);
+	}
+
+
+	get ip(): string {
+		return this.address;
 	}
 
 	[Symbol.dispose]() {
@@ -39,7 +100,36 @@ export class Card implements Disposable{
 	}
 
 	public destroy() {
-		udpServerInstance.unsubscribeForCard(this.ip);
+		udpServerInstance.unsubscribeForCard(this.address, this.messageListener);
+		this.newDataSubscribers = [];
+	}
+
+
+	/**
+	 * Moves the card to a new IP address, eg. after new DHCP lease. Pending requests are retried to the new address.
+	 */
+	public changeIp(ip: string): void {
+		if(ip === this.address) {
+			return;
+		}
+
+		udpServerInstance.unsubscribeForCard(this.address, this.messageListener);
+		this.address = ip;
+		udpServerInstance.subscribeForCard(this.address, this.messageListener);
+	}
+
+
+	/**
+	 * Registers callback for unsolicited "new data in card" notifications, which card sends when its host
+	 * (eg. camera) writes to it.
+	 */
+	public subscribeForNewData(callback: (notification: INewDataNotification) => void): void {
+		this.newDataSubscribers.push(callback);
+	}
+
+
+	public unsubscribeForNewData(callback: (notification: INewDataNotification) => void): void {
+		this.newDataSubscribers = this.newDataSubscribers.filter((subscriber) => subscriber !== callback);
 	}
 
 	public async readInfo(): Promise<ICardInfo> {
@@ -49,7 +139,7 @@ export class Card implements Disposable{
 		this.transferId++;
 		this.readInfoIds.push(myTransferId);
 		try {
-			const info = await this.sendMessage(data, myTransferId);
+			const info = await this.sendMessage<ICardInfo>(data, myTransferId);
 			this.readInfoIds.pop();
 			return info;
 		} catch(e) {
@@ -60,40 +150,147 @@ export class Card implements Disposable{
 		}
 	}
 
-	protected fileSystemAdapterCache: {[partition: number]: IFileSystemAdapter} = {};
+	/**
+	 * Asks the card whether it checks credentials of requests.
+	 */
+	public async getPasswordType(): Promise<EPasswordType> {
+		return this.sendCommand(17);
+	}
+
 
 	/**
-	 * Returns a file system adapter for the card which can be used to interact with the file system on the card.
-	 * @returns {Promise<IFileSystemAdapter>}
+	 * Sets credentials used for all following requests. When the card checks passwords, credentials are verified
+	 * by reading the first block.
+	 * @throws {AuthenticationError} When the card refuses the credentials, previous ones are kept.
 	 */
-	public async getFileSystemAdapter(partition: number = 0): Promise<IFileSystemAdapter> {
+	public async authenticate(username: string, password: string): Promise<void> {
+		const previousCredentials = this.credentials;
+		this.credentials = this.validateCredentials({username, password});
 
-		if(this.fileSystemAdapterCache[partition]) {
-			return this.fileSystemAdapterCache[partition];
+		try {
+			if(await this.getPasswordType() === EPasswordType.NONE) {
+				return;
+			}
+
+			await this.readBinaryData(0, 1);
+		} catch(err) {
+			this.credentials = previousCredentials;
+			throw err;
 		}
+	}
+
+
+	/**
+	 * Reads current Wi-Fi configuration of the card.
+	 */
+	public async getWifiConfig(): Promise<IWifiConfig> {
+		return this.sendCommand(11);
+	}
+
+
+	/**
+	 * Stores new Wi-Fi configuration to the card. Card may need to be restarted or switched to the mode
+	 * by {@link switchMode} to apply it.
+	 * @throws {CommandFailedError} When card refuses the configuration.
+	 */
+	public async setWifiConfig(config: IWifiConfig): Promise<void> {
+		await this.sendCommand(10, serializeWifiConfig(config));
+	}
+
+
+	/**
+	 * Lets the card scan for Wi-Fi networks in its range.
+	 */
+	public async scanNetworks(): Promise<IWifiNetwork[]> {
+		return this.sendCommand(16);
+	}
+
+
+	/**
+	 * Switches Wi-Fi mode without restarting the card. After switching to station mode card leaves its own network
+	 * and connects to the configured one, so it will be reachable on different IP address.
+	 * @throws {CommandFailedError} When card refuses to switch the mode.
+	 */
+	public async switchMode(mode: "ap" | "station"): Promise<void> {
+		const payload = Buffer.alloc(1);
+		payload.writeUInt8(mode === "ap" ? 1 : 0, 0);
+
+		await this.sendCommand(15, payload);
+	}
+
+
+	protected async sendCommand<C extends keyof ICommandResponses>(cmd: C, payload: Buffer = Buffer.alloc(0)): Promise<ICommandResponses[C]> {
+		/**
+		 * Offset   Size (bytes)    Field         Format    Description
+		 * 0        6               header        -         Header (b"FC1307")
+		 * 6        1               direction     B         Direction (1 = to card, 2 = from card)
+		 * 7        1               cmd           B         Command code
+		 * 8        6               zeroes        -         Zeroes (b"\x00\x00\x00\x00\x00\x00")
+		 * 14       1               username_len  B         Length of username
+		 * 15       1               password_len  B         Length of password
+		 * 16       16              username      -         Username (ASCII string, zero-padded to 16 bytes)
+		 * 32       16              password      -         Password (ASCII string, zero-padded to 16 bytes)
+		 * 48       N               payload       -         Command specific data
+		 */
 
-		const MbrUtility = new MBRUtility(this);
+		const msg = Buffer.alloc(48 + payload.length);
+		msg.write("FC1307", 0, "ascii");
+		msg.writeUInt8(1, 6); // Direction
+		msg.writeUInt8(cmd, 7); // Command Code
+
+		this.writeCredentials(msg);
+		payload.copy(msg, 48);
 
-		const partitions = await MbrUtility.getPartitions();
-		if(partitions.length < partition) {
-			throw new Error(`${partition} partition does not exist`);
+		const myTransferId = this.transferId;
+		this.transferId++;
+		const queue = this.commandIds[cmd] ??= [];
+		queue.push(myTransferId);
+		try {
+			return await this.sendMessage<ICommandResponses[C]>(msg, myTransferId);
+		} finally {
+			const index = queue.indexOf(myTransferId);
+			if(index !== -1) {
+				queue.splice(index, 1);
+			}
 		}
+	}
+
+	protected fileSystemAdapterCache: {[partition: number]: IFileSystemAdapter} = {};
 
-		let fsInstance: IFileSystemAdapter;
+	/**
+	 * Returns capacity of the card in blocks, card info is read when capacity was not provided to the constructor.
+	 */
+	public async getBlockCount(): Promise<number> {
+		return this.capacity ?? (await this.readInfo()).capacity;
+	}
 
-		switch(partitions[partition].type) {
-			case EFileSystems.FAT32:
-				fsInstance =new FAT32Adapter(this, partitions[partition]);
-				break;
-			default:
-				throw new UnsupportedFileSystemError(partitions[partition].type);
+
+	/**
+	 * Returns a file system adapter for the card which can be used to interact with the file system on the card.
+	 * @returns {Promise<IFileSystemAdapter>}
+	 */
+	public async getFileSystemAdapter(partition: number = 0): Promise<IFileSystemAdapter> {
+
+		if(this.fileSystemAdapterCache[partition]) {
+			return this.fileSystemAdapterCache[partition];
 		}
 
+		const fsInstance = await openFileSystem(this, partition);
 		this.fileSystemAdapterCache[partition] = fsInstance;
 		return fsInstance;
 	}
 
 
+	/**
+	 * Dumps the card (or its part) to raw image file, with manifest of chunk hashes in `<localPath>.manifest.json`.
+	 * Interrupted dump is resumed from the manifest when called again with the same options.
+	 * @param localPath - Path of the image file
+	 */
+	public async dumpImage(localPath: string, options: IDumpImageOptions = {}): Promise<IImageManifest> {
+		return new ImageDumper(this, localPath, options).dump();
+	}
+
+
 	/**
 	 * Reads binary data from the card starting at the specified LBA (Logical Block Address).
 	 * @param LBA_start
@@ -106,6 +303,144 @@ export class Card implements Disposable{
 			console.warn(`Total transfer count ${total_xfer_count} is out of bounds, Should be <1,14>.`);
 		}
 
+		const myTransferId = this.transferId;
+		this.transferId++;
+		this.readReassemblers[myTransferId] = new ReadReassembler(LBA_start, total_xfer_count);
+		try {
+			return await this.sendMessage<Buffer>(this.buildReadRequest(LBA_start, total_xfer_count, myTransferId), myTransferId);
+		} finally {
+			delete this.readReassemblers[myTransferId];
+		}
+	}
+
+
+	/**
+	 * Reads any number of blocks from the card. Request is split into packets of at most 14 blocks which are sent
+	 * in parallel, each with its own transfer ID. Only packets that time out are retransmitted. Count of packets
+	 * in flight and retransmission timeout adapt to the measured round trip time.
+	 * @param LBA_start
+	 * @param count - The total number of blocks to read
+	 * @throws {TimeoutError} When some packet is not answered after 10 attempts.
+	 * @throws {AuthenticationError} When the card refuses credentials.
+	 * @throws {LbaOutOfRangeError} When some block is beyond the end of the card.
+	 */
+	public async readBlocks(LBA_start: number, count: number): Promise<Buffer> {
+		const chunkCount = Math.ceil(count / 14);
+		if(chunkCount <= 0) {
+			return Buffer.alloc(0);
+		}
+
+		const chunks: Buffer[] = new Array(chunkCount);
+
+		await new Promise<void>((resolve, reject) => {
+			let nextChunk = 0;
+			let inFlight = 0;
+			let finished = 0;
+			let failure: unknown = null;
+
+			const schedule = () => {
+				while(failure === null && inFlight < this.transferWindow.size && nextChunk < chunkCount) {
+					const index = nextChunk++;
+					inFlight++;
+
+					this.readChunk(LBA_start + index * 14, Math.min(14, count - index * 14)).then((data) => {
+						chunks[index] = data;
+						inFlight--;
+						finished++;
+						if(finished === chunkCount) {
+							resolve();
+						} else {
+							schedule();
+						}
+					}).catch((err) => {
+						inFlight--;
+						failure ??= err;
+						// Let remaining requests finish, so that no response arrives for a forgotten transfer
+						if(inFlight === 0) {
+							reject(failure);
+						}
+					});
+				}
+
+				if(failure !== null && inFlight === 0) {
+					reject(failure);
+				}
+			};
+
+			schedule();
+		});
+
+		return Buffer.concat(chunks);
+	}
+
+
+	/**
+	 * Reads one request of at most 14 blocks, retransmitting it (with the same transfer ID) until whole response
+	 * arrives. Round trip time is sampled only when the first attempt is answered (Karn's algorithm).
+	 */
+	protected async readChunk(LBA_start: number, count: number): Promise<Buffer> {
+		const myTransferId = this.transferId;
+		this.transferId++;
+		const msg = this.buildReadRequest(LBA_start, count, myTransferId);
+		const response = new ResolvablePromise<Buffer>();
+		// Error reply may reject it while the request is still being sent, the error is picked up by Promise.race
+		response.catch(() => {});
+		this.dataPromises[myTransferId] = response;
+		this.readReassemblers[myTransferId] = new ReadReassembler(LBA_start, count);
+
+		try {
+			for(let attempt = 1; attempt <= 10; attempt++) {
+				const sentAt = Date.now();
+				for(const packet of this.getRetransmission(msg, myTransferId)) {
+					try {
+						await this.sendUdpPacket(packet);
+					} catch(err) {
+						// Handled same way as lost packet
+					}
+				}
+
+				let timer: NodeJS.Timeout | undefined;
+				const timeoutPromise = new Promise<null>((resolve) => {
+					timer = setTimeout(() => resolve(null), this.transferWindow.timeout);
+				});
+
+				const data = await Promise.race([response, timeoutPromise]);
+				clearTimeout(timer);
+
+				if(data !== null) {
+					if(attempt === 1) {
+						this.transferWindow.recordRtt(Date.now() - sentAt);
+					}
+					this.transferWindow.onSuccess();
+					return data;
+				}
+
+				this.transferWindow.onTimeout();
+			}
+
+			throw new TimeoutError(msg, 10, LBA_start);
+		} finally {
+			delete this.dataPromises[myTransferId];
+			delete this.readReassemblers[myTransferId];
+		}
+	}
+
+
+	/**
+	 * Returns packets to send for given transfer. When part of the read response already arrived, only the
+	 * missing blocks are requested again, with the same transfer ID.
+	 */
+	protected getRetransmission(msg: Buffer, transferId: number): Buffer[] {
+		const reassembler = this.readReassemblers[transferId];
+		if(!reassembler?.hasProgress) {
+			return [msg];
+		}
+
+		return reassembler.getMissingRanges().map((range) => this.buildReadRequest(range.LBA_start, range.count, transferId));
+	}
+
+
+	protected buildReadRequest(LBA_start: number, total_xfer_count: number, transferId: number): Buffer {
 		/**
 		 * Offset   Size (bytes)    Field         Format    Description
 		 * 0        6               header        -         Header (b"FC1307")
@@ -128,63 +463,143 @@ export class Card implements Disposable{
 		msg.writeUInt16BE(total_xfer_count, 12); // Total transfer count
 
 
-		msg.writeUInt8(USERNAME.length, 14); // Username length
-		msg.writeUInt8(PASSWORD.length, 15); // Password length
-		msg.write(USERNAME, 16, "ascii"); // Username
-		msg.write(PASSWORD, 32, "ascii"); // Password
+		this.writeCredentials(msg);
 
-		msg.writeUInt32BE(this.transferId, 48); // Transfer ID
+		msg.writeUInt32BE(transferId, 48); // Transfer ID
 
-		const myTransferId = this.transferId;
-		this.transferId++;
-		return this.sendMessage(msg, myTransferId);
+		return msg;
 	}
 
-	protected async sendMessage(msg: Buffer, transferId: number): Promise<any> {
-		this.dataPromises[transferId] = new ResolvablePromise();
+	/**
+	 * Writes binary data to the card starting at the specified LBA (Logical Block Address). Data are split into
+	 * packets of at most 14 blocks, each packet has its own transfer ID and is retried until the card acknowledges it.
+	 * @param LBA_start
+	 * @param data - Data to write, length must be multiple of block size (512 bytes)
+	 */
+	public async writeBinaryData(LBA_start: number, data: Buffer): Promise<void> {
+		const blockSize = 512;
+		if(data.length === 0 || data.length % blockSize !== 0) {
+			throw new InvalidArgumentError(`Data length ${data.length} must be non-zero multiple of ${blockSize} bytes`);
+		}
 
-		const sendUdpPacket = (): Promise<void> => {
-			return new Promise((resolve, reject) => {
-				const client = dgram.createSocket('udp4');
-				client.bind(() => {
-					client.send(msg, CARD_PORT, this.ip, (err) => {
-						client.close();
-						if(err) {
-							console.error(`UDP client error: ${err}`);
-							reject(err);
-						} else {
-							resolve();
-						}
-					});
+		const totalBlocks = data.length / blockSize;
+		for(let blockOffset = 0; blockOffset < totalBlocks; blockOffset += 14) {
+			const batch = Math.min(totalBlocks - blockOffset, 14);
+			const chunk = data.subarray(blockOffset * blockSize, (blockOffset + batch) * blockSize);
+
+			/**
+			 * Offset   Size (bytes)    Field         Format    Description
+			 * 0        6               header        -         Header (b"FC1307")
+			 * 6        1               direction     B         Direction (1 = to card, 2 = from card)
+			 * 7        1               cmd           B         Command code (5 = write data)
+			 * 8        4               lba           I         Logical Block Address (start block)
+			 * 12       2               xfer_count    H         Total transfer count (number of blocks to write)
+			 * 14       1               username_len  B         Length of username
+			 * 15       1               password_len  B         Length of password
+			 * 16       16              username      -         Username (ASCII string, zero-padded to 16 bytes)
+			 * 32       16              password      -         Password (ASCII string, zero-padded to 16 bytes)
+			 * 48       4               transfer_id   I         Transfer ID (big-endian, incremented for each request)
+			 * 52       N               storage_data  -         Raw data bytes (xfer_count * BLOCK_SIZE)
+			 */
+
+			const msg = Buffer.alloc(52 + chunk.length);
+			msg.write("FC1307", 0, "ascii");
+			msg.writeUInt8(1, 6); // Direction
+			msg.writeUInt8(5, 7); // Command Code
+			msg.writeUInt32BE(LBA_start + blockOffset, 8); // Start LBA
+			msg.writeUInt16BE(batch, 12); // Total transfer count
+
+			this.writeCredentials(msg);
+
+			msg.writeUInt32BE(this.transferId, 48); // Transfer ID
+			chunk.copy(msg, 52);
+
+			const myTransferId = this.transferId;
+			this.transferId++;
+			await this.sendMessage<void>(msg, myTransferId);
+		}
+	}
+
+	/**
+	 * Same as writeBinaryData, IBlockDevice implementation.
+	 */
+	public async writeBlocks(LBA_start: number, data: Buffer): Promise<void> {
+		return this.writeBinaryData(LBA_start, data);
+	}
+
+
+	protected validateCredentials(credentials: ICredentials): ICredentials {
+		for(const value of [credentials.username, credentials.password]) {
+			if(value.length > 16 || !/^[\x20-\x7E]*$/.test(value)) {
+				throw new InvalidArgumentError("Username and password must have at most 16 printable ASCII characters");
+			}
+		}
+
+		return credentials;
+	}
+
+
+	/**
+	 * Writes username and password fields, which are at the same offsets in all requests.
+	 */
+	protected writeCredentials(msg: Buffer): void {
+		msg.writeUInt8(this.credentials.username.length, 14); // Username length
+		msg.writeUInt8(this.credentials.password.length, 15); // Password length
+		msg.write(this.credentials.username, 16, 16, "ascii"); // Username
+		msg.write(this.credentials.password, 32, 16, "ascii"); // Password
+	}
+
+	protected sendUdpPacket(msg: Buffer): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const client = dgram.createSocket('udp4');
+			client.bind(() => {
+				client.send(msg, this.port, this.ip, (err) => {
+					client.close();
+					if(err) {
+						console.error(`UDP client error: ${err}`);
+						reject(err);
+					} else {
+						resolve();
+					}
 				});
 			});
-		};
+		});
+	}
+
+	protected async sendMessage<T>(msg: Buffer, transferId: number): Promise<T> {
+		const response = new ResolvablePromise<T>();
+		// Error reply may reject it while the request is still being sent, the error is picked up by Promise.race
+		response.catch(() => {});
+		this.dataPromises[transferId] = response;
 
 		let lastError: any = null;
 		// Try up to 10 times to read the data (3s * 10 = 30s timeout)
 		for(let attempt = 1; attempt <= 10; attempt++) {
-			try {
-				await sendUdpPacket();
-			} catch (err) {
-				lastError = err;
+			for(const packet of this.getRetransmission(msg, transferId)) {
+				try {
+					await this.sendUdpPacket(packet);
+				} catch (err) {
+					lastError = err;
+				}
 			}
 
 			const timeoutPromise = new Promise<never>((_, reject) => {
 				setTimeout(() => {
-					reject(new TimeoutError(msg));
+					reject(new TimeoutError(msg, attempt, this.getRequestLba(msg)));
 				}, READ_TIMEOUT);
 			});
 
 			try {
 				const data = await Promise.race([
-					this.dataPromises[transferId],
+					response,
 					timeoutPromise
 				]);
 				delete this.dataPromises[transferId];
 				return data;
 			} catch (err) {
 				lastError = err;
-				if(attempt >= 10) {
+				// Retransmission helps only when response was lost, not when the card refused the request
+				if(attempt >= 10 || !(err instanceof TimeoutError)) {
 					delete this.dataPromises[transferId];
 					throw lastError;
 				}
@@ -192,7 +607,21 @@ export class Card implements Disposable{
 		}
 
 		delete this.dataPromises[transferId];
-		throw lastError ?? new TimeoutError(msg);
+		throw lastError ?? new TimeoutError(msg, 10, this.getRequestLba(msg));
+	}
+
+
+	/**
+	 * Returns first block of read or write request, null for other commands.
+	 */
+	protected getRequestLba(msg: Buffer): number | null {
+		// Info request ("KTC") is shorter than block requests
+		if(msg.length < 12) {
+			return null;
+		}
+
+		const cmd = msg.readUInt8(7);
+		return cmd === 4 || cmd === 5 ? msg.readUInt32BE(8) : null;
 	}
 
 
@@ -207,10 +636,23 @@ export class Card implements Disposable{
 		 *     online wifi mode change: 15
 		 *     query wifi info: 11
 		 *     read data: 4
+		 *     write data: 5
 		 *     scan ssid: 16
 		 *     set wifi info: 10
 		 */
 
+		const malformedReason = this.getMalformedReason(msg);
+		if(malformedReason !== null) {
+			this.incomingError(msg, new MalformedPacketError(msg, malformedReason));
+			return;
+		}
+
+		const error = this.decodeErrorStatus(msg);
+		if(error) {
+			this.incomingError(msg, error);
+			return;
+		}
+
 		const cmd = msg.readUInt8(7);
 		switch(cmd) {
 			case 1: // Card Info
@@ -219,11 +661,128 @@ export class Card implements Disposable{
 			case 4: // Read Data
 				this.incomingReadData(msg, rinfo);
 				break;
+			case 5: // Write Data acknowledgement
+				this.incomingWriteAck(msg, rinfo);
+				break;
+			case 9: // New data in card
+				this.incomingNewData(msg, rinfo);
+				break;
+			case 10: // Set Wi-Fi info acknowledgement
+				this.incomingCommandResponse(10, undefined);
+				break;
+			case 15: // Wi-Fi mode change acknowledgement
+				this.incomingCommandResponse(15, undefined);
+				break;
+			case 11: // Query Wi-Fi info
+				this.incomingCommandResponse(11, parseWifiConfig(msg));
+				break;
+			case 17: // Get password type
+				this.incomingCommandResponse(17, parsePasswordType(msg));
+				break;
+			case 16: // Scan SSID
+				this.incomingCommandResponse(16, parseWifiNetworks(msg));
+				break;
 			default:
 				console.log("Received unknown command code:", cmd);
 		}
 	}
 
+	/**
+	 * Checks that packet is long enough for its command, so parsers never read out of its bounds.
+	 *
+	 * @returns Reason why the packet is malformed or null when it is fine.
+	 */
+	protected getMalformedReason(msg: Buffer): string | null {
+		if(msg.length < 8 || msg.toString('ascii', 0, 6) !== "FC1307") {
+			return "header FC1307 not found";
+		}
+
+		const minimalLengths: {[cmd: number]: number} = {
+			1: 43,
+			4: 24,
+			5: 22,
+			9: 8,
+			10: 9,
+			11: 107,
+			15: 9,
+			16: 9,
+			17: 9,
+		};
+
+		const cmd = msg.readUInt8(7);
+		const minimalLength = minimalLengths[cmd] ?? 8;
+		if(msg.length < minimalLength) {
+			return `response to command ${cmd} has ${msg.length} bytes, expected at least ${minimalLength}`;
+		}
+
+		if(cmd === 1 && msg.length < 43 + msg.readUInt8(42)) {
+			return "card info is shorter than its subversion string";
+		}
+
+		return null;
+	}
+
+
+	/**
+	 * Decodes error status of response.
+	 *
+	 * Read and write responses carry status in flags field (offset 14): 0x01 - credentials refused,
+	 * 0x02 - LBA out of range. Acknowledgements of set wifi info and wifi mode change carry status byte
+	 * at offset 8: 0 - success, 1 - credentials refused, other values - command failed.
+	 */
+	protected decodeErrorStatus(msg: Buffer): WifiSdcfError | null {
+		const cmd = msg.readUInt8(7);
+		switch(cmd) {
+			case 4:
+			case 5: {
+				const flags = msg.readUInt16BE(14);
+				if(flags === 0x01) {
+					return new AuthenticationError(this.ip, this.credentials.username);
+				}
+				if(flags === 0x02) {
+					const tid = msg.readUInt32BE(18);
+					return new LbaOutOfRangeError(msg.readUInt32BE(8), this.readReassemblers[tid]?.count ?? 1);
+				}
+				return null;
+			}
+			case 10:
+			case 15: {
+				const status = msg.readUInt8(8);
+				if(status === 1) {
+					return new AuthenticationError(this.ip, this.credentials.username);
+				}
+				return status === 0 ? null : new CommandFailedError(cmd, status);
+			}
+			default:
+				return null;
+		}
+	}
+
+
+	/**
+	 * Rejects the request the erroneous response belongs to. When it can not be identified, error is only logged.
+	 */
+	protected incomingError(msg: Buffer, error: WifiSdcfError): void {
+		const cmd = msg.length >= 8 ? msg.readUInt8(7) : -1;
+
+		if((cmd === 4 || cmd === 5) && msg.length >= 22) {
+			const tid = msg.readUInt32BE(18);
+			if(this.dataPromises[tid]) {
+				this.dataPromises[tid].reject(error);
+				return;
+			}
+		} else if(cmd === 1 && this.readInfoIds.length > 0) {
+			this.dataPromises[this.readInfoIds.shift()!]?.reject(error);
+			return;
+		} else if(this.commandIds[cmd]?.length) {
+			this.dataPromises[this.commandIds[cmd].shift()!]?.reject(error);
+			return;
+		}
+
+		console.warn(error.message);
+	}
+
+
 	protected incomingCardInfo(msg: Buffer, rinfo: dgram.RemoteInfo): ICardInfo {
 		const info = parseCardInfo(msg);
 		const transferId = this.readInfoIds.shift()!;
@@ -232,6 +791,26 @@ export class Card implements Disposable{
 	}
 
 
+	protected incomingNewData(msg: Buffer, rinfo: dgram.RemoteInfo): void {
+		const notification = parseNewDataNotification(msg);
+		this.newDataSubscribers.forEach((callback) => callback(notification));
+	}
+
+
+	/**
+	 * Resolves the oldest pending request of given command code.
+	 */
+	protected incomingCommandResponse<C extends keyof ICommandResponses>(cmd: C, response: ICommandResponses[C]): void {
+		const transferId = this.commandIds[cmd]?.shift();
+		if(transferId === undefined) {
+			console.warn(`Received response to command ${cmd} which was not requested`);
+			return;
+		}
+
+		this.dataPromises[transferId]?.resolve(response);
+	}
+
+
 	protected incomingReadData(msg: Buffer, rinfo: dgram.RemoteInfo): void {
 		/**
 		 * Offset   Size (bytes)    Field         Format    Description
@@ -239,8 +818,8 @@ export class Card implements Disposable{
 		 * 6        1               direction     B         Direction (1 = to card, 2 = from card)
 		 * 7        1               cmd           B         Command code (4 = read data)
 		 * 8        4               lba           I         Logical Block Address (start block)
-		 * 12       2               lba_offset    H         Offset into LBA span
-		 * 14       2               0x18          H         Probably command or flags
+		 * 12       2               lba_offset    H         Offset into LBA span (in blocks) of this fragment
+		 * 14       2               0x18          H         Probably command or flags, error status, see decodeErrorStatus
 		 * 16       2               n_bytes       H         Number of data bytes in this packet
 		 * 18       4               tid           I         Transaction ID
 		 * 22       2               Padding       -         Zero padding (b"\x00\x00")
@@ -255,10 +834,44 @@ export class Card implements Disposable{
 		const padding = msg.readUInt16BE(22);
 		const storageData = msg.slice(24, 24 + nBytes);
 
+		const reassembler = this.readReassemblers[tid];
+		if (!this.dataPromises[tid] || !reassembler) {
+			console.warn(`Received data for unknown transfer ID: ${tid}`);
+			return;
+		}
+
+		if(storageData.length !== nBytes) {
+			console.warn(`Received truncated fragment for transfer ID ${tid}: ${storageData.length} of ${nBytes} bytes.`);
+		}
+
+		// Duplicates (e.g. answers to retransmitted requests) are dropped
+		if(reassembler.addFragment(lba, lbaOffset, storageData) && reassembler.isComplete) {
+			this.dataPromises[tid].resolve(reassembler.data);
+		}
+	}
+
+
+	protected incomingWriteAck(msg: Buffer, rinfo: dgram.RemoteInfo): void {
+		/**
+		 * Acknowledgement uses the same framing as read data response, without storage data.
+		 *
+		 * Offset   Size (bytes)    Field         Format    Description
+		 * 0        6               header        -         Header (b"FC1307")
+		 * 6        1               direction     B         Direction (1 = to card, 2 = from card)
+		 * 7        1               cmd           B         Command code (5 = write data)
+		 * 8        4               lba           I         Logical Block Address (start block)
+		 * 12       2               lba_offset    H         Offset into LBA span
+		 * 14       2               0x18          H         Probably command or flags, error status, see decodeErrorStatus
+		 * 16       2               n_bytes       H         Number of data bytes written
+		 * 18       4               tid           I         Transaction ID
+		 */
+
+		const tid = msg.readUInt32BE(18);
+
 		if (this.dataPromises[tid]) {
-			this.dataPromises[tid].resolve(storageData);
+			this.dataPromises[tid].resolve(undefined);
 		} else {
-			console.warn(`Received data for unknown transfer ID: ${tid}`);
+			console.warn(`Received write acknowledgement for unknown transfer ID: ${tid}`);
 		}
 	}
 }
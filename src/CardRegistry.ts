@@ -0,0 +1,154 @@
+import type {Card} from "./Card.ts";
+import type {NetworkDiscovery} from "./NetworkDiscovery.ts";
+import type {ICardRegistryOptions} from "./types/ICardRegistryOptions.ts";
+import type {IRegisteredCard} from "./types/IRegisteredCard.ts";
+
+/**
+ * Keeps cards found by NetworkDiscovery by their MAC address. Card keeps its instance when it gets new IP address,
+ * and is reported offline when it stops replying to discovery.
+ */
+export class CardRegistry implements Disposable {
+
+	public onCardAdded: (card: Card) => void = () => {};
+	public onCardOnline: (card: Card) => void = () => {};
+	public onCardOffline: (card: Card) => void = () => {};
+	public onCardIpChanged: (card: Card, previousIp: string) => void = () => {};
+
+	protected cards: Map<string, IRegisteredCard> = new Map();
+	protected labels: Map<string, string> = new Map();
+
+	protected discoveryInterval: number = 10_000;
+	protected offlineCheckInterval: NodeJS.Timeout | null = null;
+
+	/**
+	 * @param discovery Discovery owned by the registry, its onCardSeen callback is replaced.
+	 */
+	constructor(
+		protected discovery: NetworkDiscovery,
+		protected options: ICardRegistryOptions = {},
+	) {
+		for(const mac in options.labels ?? {}) {
+			this.labels.set(mac.toLowerCase(), options.labels![mac]);
+		}
+		this.discovery.onCardSeen = (card, info, previousIp, networkInterface) => this.onCardSeen(card, previousIp, networkInterface);
+	}
+
+
+	[Symbol.dispose]() {
+		this.destroy();
+	}
+
+
+	/**
+	 * Stops discovery and destroys all cards.
+	 */
+	public destroy(): void {
+		this.stop();
+		this.discovery.destroy();
+		this.cards.clear();
+		this.onCardAdded = () => {};
+		this.onCardOnline = () => {};
+		this.onCardOffline = () => {};
+		this.onCardIpChanged = () => {};
+	}
+
+
+	/**
+	 * Starts discovery and checking whether cards still reply.
+	 * @param discoveryInterval Interval of discovery broadcasts in milliseconds. Default is 10 000 ms.
+	 */
+	public start(discoveryInterval: number = 10_000): void {
+		this.stop();
+		this.discoveryInterval = discoveryInterval;
+		this.discovery.startDiscovering(discoveryInterval);
+		this.offlineCheckInterval = setInterval(() => this.checkOffline(), discoveryInterval);
+	}
+
+
+	public stop(): void {
+		this.discovery.stopDiscovering();
+		if(this.offlineCheckInterval) {
+			clearInterval(this.offlineCheckInterval);
+			this.offlineCheckInterval = null;
+		}
+	}
+
+
+	/**
+	 * Names the card, label is kept when the card is not registered yet.
+	 */
+	public setLabel(mac: string, label: string | null): void {
+		const normalized = mac.toLowerCase();
+		if(label === null) {
+			this.labels.delete(normalized);
+		} else {
+			this.labels.set(normalized, label);
+		}
+
+		const registered = this.cards.get(normalized);
+		if(registered) {
+			registered.label = label;
+		}
+	}
+
+
+	public getByMac(mac: string): Card | undefined {
+		return this.cards.get(mac.toLowerCase())?.card;
+	}
+
+
+	public getByIp(ip: string): Card | undefined {
+		return this.list().find((registered) => registered.card.ip === ip)?.card;
+	}
+
+
+	public getByLabel(label: string): Card | undefined {
+		return this.list().find((registered) => registered.label === label)?.card;
+	}
+
+
+	/**
+	 * @returns All cards seen so far, including offline ones.
+	 */
+	public list(): IRegisteredCard[] {
+		return [...this.cards.values()];
+	}
+
+
+	protected onCardSeen(card: Card, previousIp: string | null, networkInterface: string | null): void {
+		if(!card.mac) {
+			return;
+		}
+
+		const mac = card.mac.toLowerCase();
+		const registered = this.cards.get(mac);
+		if(!registered) {
+			this.cards.set(mac, {card, mac, label: this.labels.get(mac) ?? null, online: true, networkInterface, lastSeenAt: new Date()});
+			this.onCardAdded(card);
+			this.onCardOnline(card);
+			return;
+		}
+
+		registered.lastSeenAt = new Date();
+		registered.networkInterface = networkInterface;
+		if(previousIp) {
+			this.onCardIpChanged(card, previousIp);
+		}
+		if(!registered.online) {
+			registered.online = true;
+			this.onCardOnline(card);
+		}
+	}
+
+
+	protected checkOffline(): void {
+		const offlineAfter = this.discoveryInterval * (this.options.missedReplies ?? 3);
+		const now = Date.now();
+		for(const registered of this.cards.values()) {
+			if(registered.online && now - registered.lastSeenAt.getTime() > offlineAfter) {
+				registered.online = false;
+				this.onCardOffline(registered.card);
+			}
+		}
+	}
+}
@@ -4,6 +4,10 @@ import type {IFileInfo} from "./fs/types/IFileInfo.ts";
 import {FileNotFoundError} from "./fs/errors/FileNotFoundError.ts";
 import {DirectoryNotFoundError} from "./fs/errors/DirectoryNotFoundError.ts";
 import {WatchDirectory} from "./WatchDirectory.ts";
+import {DirectorySync} from "./sync/DirectorySync.ts";
+import type {ISyncOptions} from "./sync/types/ISyncOptions.ts";
+import type {ISyncResult} from "./sync/types/ISyncResult.ts";
+import type {IWatchDirectoryOptions} from "./types/IWatchDirectoryOptions.ts";
 
 export class Directory {
 
@@ -32,30 +36,56 @@ export class Directory {
 	}
 
 
+	/**
+	 * First cluster of the directory, identifies it within the file system.
+	 */
+	get clusterNumber(): number {
+		return this.definition.clusterNumber;
+	}
+
+
 	/**
 	 * Lists all files and directories in this directory.
 	 *
-	 * @param refresh If true, the list will be refreshed from the file system.
+	 * @param refresh If true, the list will be refreshed from the file system and cached metadata of the file
+	 * system are dropped.
 	 *
 	 * @return A promise that resolves to an array of Directory and File instances.
 	 */
 	public async list(refresh: boolean = false): Promise<(Directory|File)[]> {
 		if(!this.entries || refresh) {
-			this.entries = [];
+			if(refresh) {
+				this.fsAdapter.invalidateCache();
+			}
+
+			// Built aside, so concurrent calls and modifications of the directory do not mix their results
+			const entries: (Directory|File)[] = [];
 			const files = await this.fsAdapter.listFolder(this.definition);
 			for(const file of files) {
-				if(file.isDirectory) {
-					this.entries.push(new Directory(this.fsAdapter, `${this.path}/${file.name}`, file));
-				} else {
-					this.entries.push(new File(this.fsAdapter, file));
-				}
+				entries.push(this.createEntry(file.name, file));
 			}
+
+			this.entries = entries;
+			return entries;
 		}
 
 		return this.entries;
 	}
 
 
+	/**
+	 * Creates instance for the entry of this directory or of its subdirectory without reading the file system.
+	 *
+	 * @param relativePath Path of the entry relative to this directory, eg. "100MEDIA/IMG_0001.JPG".
+	 * @param info Known information about the entry.
+	 */
+	public createEntry(relativePath: string, info: IFileInfo): Directory|File {
+		return info.isDirectory
+			? new Directory(this.fsAdapter, `${this.path}/${relativePath}`, info)
+			: new File(this.fsAdapter, info);
+	}
+
+
 	/**
 	 * Gets a file by its name from this directory. Uses cached results if available.
 	 *
@@ -73,7 +103,7 @@ export class Directory {
 			}
 		}
 
-		throw new FileNotFoundError();
+		throw new FileNotFoundError(`${this.path}/${name}`);
 	}
 
 
@@ -94,10 +124,110 @@ export class Directory {
 			}
 		}
 
-		throw new DirectoryNotFoundError();
+		throw new DirectoryNotFoundError(`${this.path}/${name}`);
 	}
 
-	public async watchDirectory(): Promise<WatchDirectory> {
-		return new WatchDirectory(this);
+	/**
+	 * Writes file with the specified name to this directory, existing file with the same name is overwritten.
+	 *
+	 * @param name The name of the file to write.
+	 * @param content Content of the file.
+	 *
+	 * @returns A promise that resolves to a File instance of the written file.
+	 */
+	public async writeFile(name: string, content: Buffer): Promise<File> {
+		const info = await this.fsAdapter.writeFile(`${this.path}/${name}`, content);
+		this.entries = null;
+
+		return new File(this.fsAdapter, info);
+	}
+
+
+	/**
+	 * Deletes file with the specified name from this directory.
+	 *
+	 * @throws {FileNotFoundError} If the file with the specified name does not exist in this directory.
+	 */
+	public async deleteFile(name: string): Promise<void> {
+		await this.fsAdapter.deleteFile(`${this.path}/${name}`);
+		this.entries = null;
+	}
+
+
+	/**
+	 * Renames file or directory in this directory.
+	 *
+	 * @param oldName Current name of the file or directory.
+	 * @param newName New name of the file or directory.
+	 *
+	 * @returns A promise that resolves to the renamed Directory or File instance.
+	 */
+	public async rename(oldName: string, newName: string): Promise<Directory|File> {
+		const info = await this.fsAdapter.rename(`${this.path}/${oldName}`, newName);
+		this.entries = null;
+
+		return this.createEntry(info.name, info);
+	}
+
+
+	/**
+	 * Creates a new empty subdirectory.
+	 *
+	 * @param name The name of the new directory.
+	 *
+	 * @returns A promise that resolves to a Directory instance of the created directory.
+	 */
+	public async createDirectory(name: string): Promise<Directory> {
+		const info = await this.fsAdapter.createDirectory(`${this.path}/${name}`);
+		this.entries = null;
+
+		return new Directory(this.fsAdapter, `${this.path}/${info.name}`, info);
+	}
+
+
+	/**
+	 * Removes subdirectory with the specified name.
+	 *
+	 * @param name The name of the directory to remove.
+	 * @param options.recursive If true, the directory is removed together with all its content.
+	 *
+	 * @throws {DirectoryNotEmptyError} If the directory is not empty and recursive option is not set.
+	 */
+	public async removeDirectory(name: string, options: {recursive?: boolean} = {}): Promise<void> {
+		await this.fsAdapter.removeDirectory(`${this.path}/${name}`, options.recursive ?? false);
+		this.entries = null;
+	}
+
+
+	/**
+	 * Registers callback called when card reports new data written to the partition of this directory.
+	 */
+	public subscribeForChanges(callback: () => void): void {
+		this.fsAdapter.subscribeForChanges(callback);
+	}
+
+
+	public unsubscribeForChanges(callback: () => void): void {
+		this.fsAdapter.unsubscribeForChanges(callback);
+	}
+
+
+	/**
+	 * Mirrors this directory to the local directory, only new and changed files are downloaded.
+	 *
+	 * @param localDir Local directory, created when missing.
+	 *
+	 * @returns A promise that resolves to counts of downloaded, up-to-date and deleted files.
+	 */
+	public async syncTo(localDir: string, options: ISyncOptions = {}): Promise<ISyncResult> {
+		return new DirectorySync(this, localDir, options).sync();
+	}
+
+
+	/**
+	 * Creates watcher of changes in this directory, call start() on it to begin watching.
+	 */
+	public async watchDirectory(options: IWatchDirectoryOptions = {}): Promise<WatchDirectory> {
+		return new WatchDirectory(this, options);
 	}
 }
@@ -1,5 +1,6 @@
 import type {IFileInfo} from "./fs/types/IFileInfo.ts";
 import type {IFileSystemAdapter} from "./fs/types/IFileSystemAdapter.ts";
+import {Readable} from "node:stream";
 
 export class File {
 	constructor(
@@ -27,6 +28,14 @@ export class File {
 		return this.definition.modificationTime;
 	}
 
+
+	/**
+	 * First cluster of the file, identifies it within the file system.
+	 */
+	get clusterNumber(): number {
+		return this.definition.clusterNumber;
+	}
+
 	/**
 	 * Reads the content of the file.
 	 *
@@ -38,17 +47,73 @@ export class File {
 
 
 	/**
-	 * Downloads the file to the specified local path.
+	 * Reads part of the file content.
+	 *
+	 * @param offset Offset of the first byte to read.
+	 * @param length Count of bytes to read, the result is shorter when the range exceeds the end of the file.
+	 */
+	public async readRange(offset: number, length: number): Promise<Buffer> {
+		return this.fsAdapter.readRange(this.definition, offset, length);
+	}
+
+
+	/**
+	 * Creates readable stream of the file content. Data are read from the card only as the stream is consumed,
+	 * so only requested range of the file is transferred.
+	 *
+	 * @param options.start Offset of the first byte to read. Default is 0.
+	 * @param options.end Offset of the last byte to read (inclusive). Default is the end of the file.
+	 * @param options.chunkSize Count of bytes read from the card at once. Default is 64 KiB.
+	 */
+	public createReadStream(options: {start?: number, end?: number, chunkSize?: number} = {}): Readable {
+		const start = options.start ?? 0;
+		const end = Math.min(options.end ?? this.size - 1, this.size - 1);
+		const chunkSize = options.chunkSize ?? 64 * 1024;
+		const fsAdapter = this.fsAdapter;
+		const definition = this.definition;
+
+		async function* readChunks(): AsyncGenerator<Buffer> {
+			for(let position = start; position <= end; position += chunkSize) {
+				yield await fsAdapter.readRange(definition, position, Math.min(chunkSize, end - position + 1));
+			}
+		}
+
+		return Readable.from(readChunks(), {objectMode: false});
+	}
+
+
+	/**
+	 * Downloads the file to the specified local path. Content is streamed, so the file is never held in memory.
 	 *
 	 * @param localPath The path where the file should be saved.
+	 * @param options.resume If true and the local file exists, only the missing rest of the file is downloaded
+	 * and appended to it.
 	 *
-	 * @returns The size of the downloaded file in bytes.
+	 * @returns The count of bytes downloaded by this call.
 	 */
-	public async download(localPath: string): Promise<number> {
-		const content = await this.readContent();
-		const fs = await import("fs/promises");
-		await fs.writeFile(localPath, content);
+	public async download(localPath: string, options: {resume?: boolean} = {}): Promise<number> {
+		const fs = await import("fs");
+		const {pipeline} = await import("stream/promises");
+
+		let start = 0;
+		if(options.resume) {
+			try {
+				start = (await fs.promises.stat(localPath)).size;
+			} catch {
+				start = 0;
+			}
+
+			// Local file is not a prefix of this file, download it again
+			if(start > this.size) {
+				start = 0;
+			}
+		}
+
+		await pipeline(
+			this.createReadStream({start}),
+			fs.createWriteStream(localPath, {flags: start > 0 ? 'a' : 'w'})
+		);
 
-		return content.length;
+		return this.size - start;
 	}
 }
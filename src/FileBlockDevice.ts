@@ -0,0 +1,113 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {IBlockDevice} from "./types/IBlockDevice.ts";
+import type {IFileSystemAdapter} from "./fs/types/IFileSystemAdapter.ts";
+import {ResolvablePromise} from "./utils/ResolvablePromise.ts";
+import {openFileSystem} from "./utils/openFileSystem.ts";
+import {LbaOutOfRangeError} from "./errors/LbaOutOfRangeError.ts";
+import {InvalidArgumentError} from "./errors/InvalidArgumentError.ts";
+import {UnsupportedOperationError} from "./fs/errors/UnsupportedOperationError.ts";
+
+/**
+ * Block device backed by local disk image (eg. dump of the card) or by block device like /dev/sdX.
+ */
+export class FileBlockDevice implements AsyncDisposable, IBlockDevice {
+
+	public readonly blockSize: number = 512;
+
+	protected handle: fs.FileHandle | null = null;
+
+	protected blockCount: number = 0;
+
+	protected initialised: ResolvablePromise<void> = new ResolvablePromise();
+
+	/**
+	 * @param filePath Path to the image or block device
+	 * @param readOnly Open without write access, writes are rejected
+	 */
+	constructor(
+		protected filePath: string,
+		protected readOnly: boolean = false,
+	) {
+		this.open().catch((err) => this.initialised.reject(err));
+		// Error is reported by the first operation, not as unhandled rejection
+		this.initialised.catch(() => {});
+	}
+
+
+	async [Symbol.asyncDispose]() {
+		await this.close();
+	}
+
+
+	public async close(): Promise<void> {
+		await this.initialised.catch(() => {});
+		if(this.handle) {
+			await this.handle.close();
+			this.handle = null;
+		}
+	}
+
+
+	public async getBlockCount(): Promise<number> {
+		await this.initialised;
+		return this.blockCount;
+	}
+
+
+	/**
+	 * Returns file system adapter for the partition of the image.
+	 */
+	public async getFileSystemAdapter(partition: number = 0): Promise<IFileSystemAdapter> {
+		return openFileSystem(this, partition);
+	}
+
+
+	public async readBlocks(LBA_start: number, count: number): Promise<Buffer> {
+		await this.initialised;
+		this.checkRange(LBA_start, count);
+
+		const data = Buffer.alloc(count * this.blockSize);
+		await this.handle!.read(data, 0, data.length, LBA_start * this.blockSize);
+
+		return data;
+	}
+
+
+	public async writeBlocks(LBA_start: number, data: Buffer): Promise<void> {
+		await this.initialised;
+		if(this.readOnly) {
+			throw new UnsupportedOperationError("writeBlocks", `${this.filePath} is opened read-only`);
+		}
+		if(data.length === 0 || data.length % this.blockSize !== 0) {
+			throw new InvalidArgumentError(`Data length ${data.length} must be non-zero multiple of ${this.blockSize} bytes`);
+		}
+		this.checkRange(LBA_start, data.length / this.blockSize);
+
+		await this.handle!.write(data, 0, data.length, LBA_start * this.blockSize);
+	}
+
+
+	protected async open(): Promise<void> {
+		this.handle = await fs.open(this.filePath, this.readOnly ? "r" : "r+");
+
+		const stat = await this.handle.stat();
+		if(stat.isBlockDevice()) {
+			// Size of block devices is not reported by stat, sysfs reports it in 512 byte sectors
+			const name = path.basename(await fs.realpath(this.filePath));
+			const sectors = Number((await fs.readFile(`/sys/class/block/${name}/size`, "ascii")).trim());
+			this.blockCount = Math.floor(sectors * 512 / this.blockSize);
+		} else {
+			this.blockCount = Math.floor(stat.size / this.blockSize);
+		}
+
+		this.initialised.resolve();
+	}
+
+
+	protected checkRange(LBA_start: number, count: number): void {
+		if(LBA_start < 0 || count < 0 || LBA_start + count > this.blockCount) {
+			throw new LbaOutOfRangeError(LBA_start, count);
+		}
+	}
+}
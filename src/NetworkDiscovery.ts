@@ -3,21 +3,50 @@ import {Card} from "./Card.ts";
 import udpServerInstance from "./network/UdpServer.ts";
 import {CARD_PORT} from "./constants/CARD_PORT.ts";
 import {parseCardInfo} from "./utils/parseCardInfo.ts";
+import type {ICredentials} from "./types/ICredentials.ts";
+import type {ICardInfo} from "./types/ICardInfo.ts";
+import {findNetworkInterface, getNetworkInterfaces} from "./utils/getNetworkInterfaces.ts";
+
+/**
+ * Target of discovery replaced by broadcast addresses of all local IPv4 interfaces.
+ */
+const AUTO_TARGET = "auto";
 
 export class NetworkDiscovery implements Disposable {
 
 	/**
 	 * Callback that is called when a card is discovered.
+	 * networkInterface is name of local interface in the card's subnet, null for cards behind router.
+	 */
+	public onCardDiscovered: (card: Card, networkInterface: string | null) => void = () => {};
+
+	/**
+	 * Callback that is called on every reply to discovery, including cards discovered before. When the card
+	 * replied from new IP address, it is already moved to it and previousIp is the old one.
 	 */
-	public onCardDiscovered: (card: Card) => void = () => {};
+	public onCardSeen: (card: Card, info: ICardInfo, previousIp: string | null, networkInterface: string | null) => void = () => {};
+
+	protected targets: string[];
 
 	protected discovered: Card[] = [];
 	protected broadcastInterval: NodeJS.Timeout | null = null;
 
+	protected messageListener = (msg: Buffer, rinfo: dgram.RemoteInfo): void => this.handleIncommingMessage(msg, rinfo);
+
 
+	/**
+	 * @param targets Broadcast addresses of networks or unicast addresses of cards (eg. in routed subnets, where
+	 * broadcast does not reach). "auto" stands for broadcast addresses of all local IPv4 interfaces, detected again
+	 * before every broadcast. Default is "auto".
+	 * @param credentialProvider Returns credentials for card with given MAC address, or undefined for default ones.
+	 * @param cardPort UDP port of the cards, other than default only for CardSimulator.
+	 */
 	constructor(
-		protected multicastAddress: string = "192.168.0.255",
+		targets: string | string[] = AUTO_TARGET,
+		protected credentialProvider: (mac: string) => ICredentials | undefined = () => undefined,
+		protected cardPort: number = CARD_PORT,
 	) {
+		this.targets = Array.isArray(targets) ? targets : [targets];
 		this.initUdpServer();
 	}
 
@@ -32,9 +61,11 @@ export class NetworkDiscovery implements Disposable {
 	 */
 	public destroy(): void {
 		this.stopDiscovering();
+		udpServerInstance.unsubscribeForAll(this.messageListener);
 		this.discovered.forEach((card: Card) => card.destroy());
 		this.discovered = [];
 		this.onCardDiscovered = () => {};
+		this.onCardSeen = () => {};
 	}
 
 
@@ -61,19 +92,42 @@ export class NetworkDiscovery implements Disposable {
 	}
 
 
+	/**
+	 * @returns Addresses the discovery is sent to, with "auto" resolved to broadcast addresses of current interfaces.
+	 */
+	public getTargetAddresses(): string[] {
+		const addresses = this.targets.flatMap((target) => target === AUTO_TARGET
+			? getNetworkInterfaces().map((networkInterface) => networkInterface.broadcast)
+			: [target]);
+
+		return [...new Set(addresses)];
+	}
+
+
 	protected sendBroadcast(): void {
 		const data = Buffer.from('KTC');
-		const client = dgram.createSocket('udp4');
+		const addresses = this.getTargetAddresses();
+		if(addresses.length === 0) {
+			console.warn("No network interface to discover cards on");
+			return;
+		}
 
+		const client = dgram.createSocket('udp4');
 		client.bind(() => {
 			client.setBroadcast(true);
-			console.log("Sending broadcast to discover cards...");
-			client.send(data, CARD_PORT, this.multicastAddress, (err) => {
-				if (err) {
-					console.error(`UDP client error: ${err}`);
-				}
-				client.close();
-			});
+			console.log(`Sending broadcast to discover cards to ${addresses.join(", ")}...`);
+
+			let pending = addresses.length;
+			for(const address of addresses) {
+				client.send(data, this.cardPort, address, (err) => {
+					if (err) {
+						console.error(`UDP client error for ${address}: ${err}`);
+					}
+					if(--pending === 0) {
+						client.close();
+					}
+				});
+			}
 		});
 	}
 
@@ -101,6 +155,11 @@ export class NetworkDiscovery implements Disposable {
 
 		switch(command) {
 			case 0x01:
+				// Card info ends with subversion length at offset 42
+				if(msg.length < 43) {
+					console.warn(`Received card info of ${msg.length} bytes, should be at least 43`);
+					return;
+				}
 				this.parseCardInfo(msg, rinfo);
 				break;
 			default:
@@ -117,14 +176,24 @@ export class NetworkDiscovery implements Disposable {
 	protected parseCardInfo(msg: Buffer, rinfo: dgram.RemoteInfo): void {
 
 		const info = parseCardInfo(msg);
-
-		if(this.discovered.some((card) => card.ip === info.ip && card.mac === info.mac)) {
+		const networkInterface = findNetworkInterface(rinfo.address, getNetworkInterfaces())?.name ?? null;
+
+		// Card is identified by MAC, IP changes with every DHCP lease
+		const known = this.discovered.find((card) => card.mac === info.mac);
+		if(known) {
+			const previousIp = known.ip !== info.ip ? known.ip : null;
+			if(previousIp) {
+				console.log(`Card ${info.mac} moved from ${previousIp} to ${info.ip}`);
+				known.changeIp(info.ip);
+			}
+			this.onCardSeen(known, info, previousIp, networkInterface);
 			return;
 		}
 
 		console.log("Discovered card:");
 		console.log(` * IP: ${info.ip}`);
 		console.log(` * MAC: ${info.mac}`);
+		console.log(` * Interface: ${networkInterface ?? "routed"}`);
 		console.log(` * AP Mode: ${info.apMode ? "Enabled" : "Disabled"}`);
 		console.log(` * Type: ${info.type}`);
 		console.log(` * Capacity: ${info.capacity} blocks`);
@@ -132,9 +201,13 @@ export class NetworkDiscovery implements Disposable {
 		console.log(` * Subversion: ${info.subver}`);
 		console.log("");
 
-		const card = new Card(info.ip, info.mac, info.type, info.version, info.capacity, info.apMode, info.subver);
+		const card = new Card(info.ip, info.mac, info.type, info.version, info.capacity, info.apMode, info.subver, {
+			credentials: this.credentialProvider(info.mac),
+			port: this.cardPort,
+		});
 		this.discovered.push(card);
-		this.onCardDiscovered(card);
+		this.onCardDiscovered(card, networkInterface);
+		this.onCardSeen(card, info, null, networkInterface);
 	}
 
 
@@ -142,7 +215,7 @@ export class NetworkDiscovery implements Disposable {
 	 * Initializes the UDP server to listen for incoming messages.
 	 */
 	protected initUdpServer(): void {
-		udpServerInstance.subscribeForAll((msg, rinfo) => this.handleIncommingMessage(msg, rinfo));
+		udpServerInstance.subscribeForAll(this.messageListener);
 	}
 
 }
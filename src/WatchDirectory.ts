@@ -1,26 +1,77 @@
 import type {Directory} from "./Directory.ts";
 import {File} from "./File.ts";
+import type {IFileInfo} from "./fs/types/IFileInfo.ts";
+import type {IWatchDirectoryOptions} from "./types/IWatchDirectoryOptions.ts";
+import type {IWatchState, IWatchStateEntry} from "./types/IWatchState.ts";
 
+/**
+ * Files and directories are keyed by path relative to the watched directory, separated by "/". In non-recursive
+ * mode it is just the name.
+ */
 export class WatchDirectory implements Disposable {
 
-	protected alreadyDiscoveredFiles: {[fileName: string]: File} = {};
+	protected alreadyDiscoveredFiles: {[path: string]: File} = {};
+	protected alreadyDiscoveredDirectories: {[path: string]: Directory} = {};
 
-	public onNewFile: (file: File) => void = () => {};
-	public onFileModified: (file: File) => void = () => {};
-	public onFileRemoved: (file: File) => void = () => {};
+	public onNewFile: (file: File, path: string) => void = () => {};
+	public onFileModified: (file: File, path: string) => void = () => {};
+	public onFileRemoved: (file: File, path: string) => void = () => {};
 
-	protected unstableFiles: {[fileName: string]: {size: number, detectedAt: number}} = {};
+	/**
+	 * Called in recursive mode only, files in the added directory are reported by onNewFile once stable.
+	 */
+	public onDirectoryAdded: (directory: Directory, path: string) => void = () => {};
+
+	/**
+	 * Called in recursive mode only, after onFileRemoved of files which were in the directory.
+	 */
+	public onDirectoryRemoved: (directory: Directory, path: string) => void = () => {};
+
+	protected unstableFiles: {[path: string]: {size: number, detectedAt: number}} = {};
 	protected checkInterval: number = 5_000;
 
 	protected interval: NodeJS.Timeout | null = null;
 
+	/**
+	 * Time of the last "new data" notification from the card. Polling is skipped while notifications arrive.
+	 */
+	protected lastNotificationAt: number = 0;
+
+	/**
+	 * Notifications come in bursts while camera writes a file, they are merged into one check.
+	 */
+	protected notificationTimeout: NodeJS.Timeout | null = null;
+
+	/**
+	 * When card sends notifications, file is considered completely written after this time without notification.
+	 */
+	protected notificationQuietPeriod: number = 1_000;
+
+	/**
+	 * Detection must not run before existing files are known, otherwise they would be reported as new.
+	 * Null until loading starts and again after it failed, so it is retried before the next detection.
+	 */
+	protected existingFilesLoaded: Promise<void> | null = null;
+
+	protected runningDetection: Promise<void> | null = null;
+	protected detectionRequested: boolean = false;
+
+	protected notificationListener = (): void => this.onNotification();
+
+	/**
+	 * Serialized state last passed to the state store, unchanged state is not saved again.
+	 */
+	protected savedState: string | null = null;
+
 	constructor(
-		protected directory: Directory
+		protected directory: Directory,
+		protected options: IWatchDirectoryOptions = {},
 	) {
 	}
 
 	/**
-	 * Starts watching the directory for changes.
+	 * Starts watching the directory for changes. When the card sends "new data" notifications, changes are
+	 * checked right after them and polling is used only while the card is silent.
 	 *
 	 * @param interval The interval in milliseconds to check for changes. Default is 5 000 ms.
 	 */
@@ -30,9 +81,11 @@ export class WatchDirectory implements Disposable {
 			clearInterval(this.interval);
 		}
 
-		this.interval = setInterval(() => this.detectChanges(), interval);
-		this.initExistingFiles();
-		this.detectChanges();
+		this.interval = setInterval(() => this.poll(), interval);
+		this.directory.unsubscribeForChanges(this.notificationListener);
+		this.directory.subscribeForChanges(this.notificationListener);
+		this.existingFilesLoaded = null;
+		this.scheduleDetection();
 	}
 
 
@@ -46,53 +99,232 @@ export class WatchDirectory implements Disposable {
 			clearInterval(this.interval);
 			this.interval = null;
 		}
+		if(this.notificationTimeout) {
+			clearTimeout(this.notificationTimeout);
+			this.notificationTimeout = null;
+		}
+		this.directory.unsubscribeForChanges(this.notificationListener);
 		this.onNewFile = () => {};
 		this.onFileRemoved = () => {};
 		this.onFileModified = () => {};
+		this.onDirectoryAdded = () => {};
+		this.onDirectoryRemoved = () => {};
 		this.alreadyDiscoveredFiles = {};
+		this.alreadyDiscoveredDirectories = {};
 		this.unstableFiles = {};
+		this.savedState = null;
+		this.existingFilesLoaded = null;
+	}
+
+
+	protected poll(): void {
+		if(Date.now() - this.lastNotificationAt < this.checkInterval) {
+			return;
+		}
+
+		this.scheduleDetection();
+	}
+
+
+	protected onNotification(): void {
+		this.lastNotificationAt = Date.now();
+		if(this.notificationTimeout) {
+			return;
+		}
+
+		this.notificationTimeout = setTimeout(() => {
+			this.notificationTimeout = null;
+			this.scheduleDetection();
+		}, 200);
+	}
+
+
+	/**
+	 * Runs detection of changes, or requests one more run when detection is already in progress.
+	 */
+	protected scheduleDetection(): void {
+		if(this.runningDetection) {
+			this.detectionRequested = true;
+			return;
+		}
+
+		this.runningDetection = this.loadExistingFiles()
+			.then(() => this.detectChanges())
+			.catch((err) => console.error(`Detecting changes failed: ${err}`))
+			.finally(() => {
+				this.runningDetection = null;
+				if(this.detectionRequested) {
+					this.detectionRequested = false;
+					this.scheduleDetection();
+				}
+			});
+	}
+
+
+	protected loadExistingFiles(): Promise<void> {
+		if(!this.existingFilesLoaded) {
+			this.existingFilesLoaded = this.initExistingFiles().catch((err) => {
+				this.existingFilesLoaded = null;
+				throw err;
+			});
+		}
+
+		return this.existingFilesLoaded;
 	}
 
 
+	/**
+	 * Files of the saved state are considered known, so the first detection reports changes made since then.
+	 * Without usable state, everything currently present is known.
+	 */
 	protected async initExistingFiles(): Promise<void> {
-		const files: File[] = (await this.directory.list(true))
-			.filter((entry) => entry instanceof File) as File[];
+		let state: IWatchState | null = null;
+		try {
+			state = await this.options.stateStore?.load() ?? null;
+		} catch(err) {
+			// Missing changes made while stopped is better than reporting every file on the card as new
+			console.error(`Loading watch state failed, current files are considered known: ${err}`);
+		}
+
+		if(state && state.version === 1 && state.recursive === !!this.options.recursive) {
+			this.alreadyDiscoveredFiles = {};
+			for(const path in state.files) {
+				this.alreadyDiscoveredFiles[path] = this.directory.createEntry(path, this.fromStateEntry(state.files[path], false)) as File;
+			}
+			this.alreadyDiscoveredDirectories = {};
+			for(const path in state.directories) {
+				this.alreadyDiscoveredDirectories[path] = this.directory.createEntry(path, this.fromStateEntry(state.directories[path], true)) as Directory;
+			}
+			this.savedState = JSON.stringify(state);
+			return;
+		}
 
-		for(const file of files) {
-			this.alreadyDiscoveredFiles[file.name] = file;
+		const {files, directories} = await this.listEntries();
+		this.alreadyDiscoveredFiles = files;
+		this.alreadyDiscoveredDirectories = directories;
+		await this.saveState();
+	}
+
+
+	/**
+	 * Saves known files and directories, files which are not stable yet are not included.
+	 */
+	protected async saveState(): Promise<void> {
+		if(!this.options.stateStore) {
+			return;
+		}
+
+		const state: IWatchState = {
+			version: 1,
+			recursive: !!this.options.recursive,
+			files: {},
+			directories: {},
+		};
+		for(const path in this.alreadyDiscoveredFiles) {
+			state.files[path] = this.toStateEntry(this.alreadyDiscoveredFiles[path]);
+		}
+		for(const path in this.alreadyDiscoveredDirectories) {
+			state.directories[path] = this.toStateEntry(this.alreadyDiscoveredDirectories[path]);
+		}
+
+		const serialized = JSON.stringify(state);
+		if(serialized !== this.savedState) {
+			await this.options.stateStore.save(state);
+			this.savedState = serialized;
 		}
 	}
 
 
+	protected toStateEntry(entry: File | Directory): IWatchStateEntry {
+		return {
+			name: entry.name,
+			size: entry instanceof File ? entry.size : 0,
+			clusterNumber: entry.clusterNumber,
+			creationTime: entry.creationDate.getTime(),
+			modificationTime: entry.modificationDate.getTime(),
+		};
+	}
+
+
+	protected fromStateEntry(entry: IWatchStateEntry, isDirectory: boolean): IFileInfo {
+		return {
+			name: entry.name,
+			size: entry.size,
+			isDirectory,
+			clusterNumber: entry.clusterNumber,
+			creationTime: new Date(entry.creationTime),
+			modificationTime: new Date(entry.modificationTime),
+		};
+	}
+
+
+	/**
+	 * Lists the directory, and its subdirectories in recursive mode.
+	 */
+	protected async listEntries(): Promise<{files: {[path: string]: File}, directories: {[path: string]: Directory}}> {
+		const files: {[path: string]: File} = {};
+		const directories: {[path: string]: Directory} = {};
+
+		const listDirectory = async (directory: Directory, prefix: string, refresh: boolean): Promise<void> => {
+			for(const entry of await directory.list(refresh)) {
+				const path = prefix + entry.name;
+				if(entry instanceof File) {
+					files[path] = entry;
+				} else if(this.options.recursive && entry.name !== "." && entry.name !== "..") {
+					directories[path] = entry;
+					await listDirectory(entry, `${path}/`, false);
+				}
+			}
+		};
+
+		// Subdirectories are new instances from the fresh listing, so they need no refresh
+		await listDirectory(this.directory, "", true);
+
+		return {files, directories};
+	}
+
+
 	protected async detectChanges(): Promise<void> {
-		const files: File[] = (await this.directory.list(true))
-			.filter((entry) => entry instanceof File);
+		const {files: currentFiles, directories: currentDirectories} = await this.listEntries();
 
-		const newFiles: File[] = [];
-		const modifiedFiles: File[] = [];
-		const removedFiles: File[] = [];
+		const newFiles: {path: string, file: File}[] = [];
+		const modifiedFiles: {path: string, file: File}[] = [];
+		const removedFiles: {path: string, file: File}[] = [];
 
-		const currentFiles: {[fileName: string]: File} = {};
-		for(const file of files) {
-			currentFiles[file.name] = file;
+		// Directories are reported right away, there is no size to become stable
+		const addedDirectories: {path: string, directory: Directory}[] = [];
+		const removedDirectories: {path: string, directory: Directory}[] = [];
+		for(const path in currentDirectories) {
+			if(!this.alreadyDiscoveredDirectories[path]) {
+				addedDirectories.push({path, directory: currentDirectories[path]});
+			}
 		}
+		for(const path in this.alreadyDiscoveredDirectories) {
+			if(!currentDirectories[path]) {
+				removedDirectories.push({path, directory: this.alreadyDiscoveredDirectories[path]});
+			}
+		}
+		this.alreadyDiscoveredDirectories = currentDirectories;
 
 		// Check for new or modified files
-		for(const file of files) {
-			const existingFile = this.alreadyDiscoveredFiles[file.name];
-			const unstableFile = this.unstableFiles[file.name];
+		for(const path in currentFiles) {
+			const file = currentFiles[path];
+			const existingFile = this.alreadyDiscoveredFiles[path];
+			const unstableFile = this.unstableFiles[path];
 
 			if(existingFile) {
 				// File already known and stable, check changes
-				if(existingFile.modificationDate.getTime() !== file.modificationDate.getTime() || existingFile.size !== file.size) {
-					modifiedFiles.push(file);
-					this.alreadyDiscoveredFiles[file.name] = file;
+				if(existingFile.modificationDate.getTime() !== file.modificationDate.getTime()
+					|| existingFile.size !== file.size
+					|| existingFile.clusterNumber !== file.clusterNumber) {
+					modifiedFiles.push({path, file});
+					this.alreadyDiscoveredFiles[path] = file;
 				}
 			} else {
 				// New or unstable file
 				if(!unstableFile || unstableFile.size !== file.size) {
 					// File is new or size has changed, add to unstable files
-					this.unstableFiles[file.name] = {
+					this.unstableFiles[path] = {
 						size: file.size,
 						detectedAt: Date.now(),
 					};
@@ -102,36 +334,52 @@ export class WatchDirectory implements Disposable {
 
 		// Check unstable files for stability
 		const now = Date.now();
-		for(const fileName in this.unstableFiles) {
-			const unstableFile = this.unstableFiles[fileName];
-			const currentFile = currentFiles[fileName];
+		const notificationsActive = this.lastNotificationAt > 0 && now - this.lastNotificationAt < this.checkInterval * 2;
+		const stablePeriod = notificationsActive ? this.notificationQuietPeriod : this.checkInterval * 2;
+		const quiet = !notificationsActive || now - this.lastNotificationAt > this.notificationQuietPeriod;
+		for(const path in this.unstableFiles) {
+			const unstableFile = this.unstableFiles[path];
+			const currentFile = currentFiles[path];
 
 			if(currentFile && unstableFile.size === currentFile.size) {
 				// Size is stable, check if it has been stable long enough
-				if(now - unstableFile.detectedAt > this.checkInterval * 2) {
+				if(quiet && now - unstableFile.detectedAt > stablePeriod) {
 					// File is stable now
-					newFiles.push(currentFile);
-					this.alreadyDiscoveredFiles[fileName] = currentFile;
-					delete this.unstableFiles[fileName];
+					newFiles.push({path, file: currentFile});
+					this.alreadyDiscoveredFiles[path] = currentFile;
+					delete this.unstableFiles[path];
 				}
 			} else if(!currentFile) {
 				// File is no longer present, remove from unstable files
-				delete this.unstableFiles[fileName];
+				delete this.unstableFiles[path];
 			}
 		}
 
 		// Check for removed files
 		// Any file that was previously discovered but is not in currentFiles is considered removed
-		for(const fileName in this.alreadyDiscoveredFiles) {
-			if(!currentFiles[fileName]) {
-				removedFiles.push(this.alreadyDiscoveredFiles[fileName]);
-				delete this.alreadyDiscoveredFiles[fileName];
+		for(const path in this.alreadyDiscoveredFiles) {
+			if(!currentFiles[path]) {
+				removedFiles.push({path, file: this.alreadyDiscoveredFiles[path]});
+				delete this.alreadyDiscoveredFiles[path];
 			}
 		}
 
-		newFiles.forEach((file) => this.onNewFile(file));
-		modifiedFiles.forEach((file) => this.onFileModified(file));
-		removedFiles.forEach((file) => this.onFileRemoved(file));
+		// Saved before callbacks, so events are not reported again after restart
+		await this.saveState().catch((err) => console.error(`Saving watch state failed: ${err}`));
+
+		addedDirectories.forEach(({path, directory}) => this.onDirectoryAdded(directory, path));
+		newFiles.forEach(({path, file}) => this.onNewFile(file, path));
+		modifiedFiles.forEach(({path, file}) => this.onFileModified(file, path));
+		removedFiles.forEach(({path, file}) => this.onFileRemoved(file, path));
+		removedDirectories.forEach(({path, directory}) => this.onDirectoryRemoved(directory, path));
+
+		// Card will not notify once camera stops writing, so check again after quiet period instead of waiting for poll
+		if(notificationsActive && Object.keys(this.unstableFiles).length > 0 && !this.notificationTimeout) {
+			this.notificationTimeout = setTimeout(() => {
+				this.notificationTimeout = null;
+				this.scheduleDetection();
+			}, this.notificationQuietPeriod + 100);
+		}
 	}
 
 }
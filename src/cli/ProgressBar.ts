@@ -0,0 +1,61 @@
+import {formatBytes} from "./utils/formatBytes.ts";
+
+const WIDTH = 30;
+
+/**
+ * Progress bar drawn on stderr. Nothing is drawn when stderr is not a terminal or in JSON mode.
+ */
+export class ProgressBar {
+
+	protected enabled: boolean;
+	protected startedAt: number = Date.now();
+	protected lastDrawAt: number = 0;
+
+	constructor(
+		protected total: number,
+		protected label: string = "",
+		enabled: boolean = true,
+	) {
+		this.enabled = enabled && !!process.stderr.isTTY;
+	}
+
+
+	/**
+	 * @param done Bytes done so far.
+	 * @param label Replaces the label, eg. with the name of the current file.
+	 */
+	public update(done: number, label?: string): void {
+		if(label !== undefined) {
+			this.label = label;
+		}
+
+		// Redrawing on every chunk would slow down the transfer
+		const now = Date.now();
+		if(!this.enabled || (now - this.lastDrawAt < 100 && done < this.total)) {
+			return;
+		}
+		this.lastDrawAt = now;
+
+		const ratio = this.total > 0 ? Math.min(1, done / this.total) : 1;
+		const filled = Math.round(ratio * WIDTH);
+		const speed = done / Math.max(0.001, (now - this.startedAt) / 1000);
+		process.stderr.write(`\r\x1b[K[${"#".repeat(filled)}${"-".repeat(WIDTH - filled)}] ${(ratio * 100).toFixed(0).padStart(3)}% `
+			+ `${formatBytes(done)}/${formatBytes(this.total)} ${formatBytes(speed)}/s ${this.label}`);
+	}
+
+
+	/**
+	 * Total grows while directory sync finds more files to download.
+	 */
+	public setTotal(total: number): void {
+		this.total = total;
+	}
+
+
+	public finish(): void {
+		// Directory sync without any file reported has not drawn the bar
+		if(this.enabled && this.lastDrawAt > 0) {
+			process.stderr.write("\n");
+		}
+	}
+}
@@ -0,0 +1,55 @@
+import type {ICliCommand} from "../types/ICliCommand.ts";
+import {EExitCode} from "../types/EExitCode.ts";
+import {NetworkDiscovery} from "../../NetworkDiscovery.ts";
+import {CARD_PORT} from "../../constants/CARD_PORT.ts";
+import type {Card} from "../../Card.ts";
+import {print, printJson} from "../utils/print.ts";
+
+const cardToJson = (card: Card, networkInterface: string | null): object => ({
+	ip: card.ip,
+	interface: networkInterface,
+	mac: card.mac,
+	type: card.type,
+	version: card.version,
+	subVersion: card.subVersion,
+	capacity: card.capacity,
+	apMode: card.apMode,
+});
+
+export const discoverCommand: ICliCommand = {
+	name: "discover",
+	usage: "[--broadcast <address>...] [--timeout <ms>]",
+	description: "Lists cards answering to broadcast, sent to all local interfaces unless addresses are given",
+	options: {
+		broadcast: {type: "string", short: "b", multiple: true, default: ["auto"]},
+		timeout: {type: "string", short: "t", default: "5000"},
+	},
+
+	async run(options, values) {
+		const cards: {card: Card, networkInterface: string | null}[] = [];
+		const discovery = new NetworkDiscovery(
+			values.broadcast as string[],
+			() => options.user !== undefined ? {username: options.user, password: options.password ?? ""} : undefined,
+			options.port ?? CARD_PORT,
+		);
+
+		try {
+			discovery.onCardDiscovered = (card: Card, networkInterface: string | null): void => {
+				cards.push({card, networkInterface});
+				if(!options.json) {
+					print(`${card.ip}\t${card.mac}\t${card.type}\t${card.version}\t${card.apMode ? "AP" : "station"}\t${networkInterface ?? "-"}`);
+				}
+			};
+			discovery.startDiscovering(1_000);
+			await new Promise((resolve) => setTimeout(resolve, Number(values.timeout)));
+		} finally {
+			discovery.destroy();
+		}
+
+		if(options.json) {
+			printJson(cards.map(({card, networkInterface}) => cardToJson(card, networkInterface)));
+		}
+
+		return cards.length > 0 ? EExitCode.OK : EExitCode.UNREACHABLE;
+	},
+};
@@ -0,0 +1,94 @@
+import fs from "node:fs";
+import fsPromises from "node:fs/promises";
+import nodePath from "node:path";
+import {Transform} from "node:stream";
+import {pipeline} from "node:stream/promises";
+import type {ICliCommand} from "../types/ICliCommand.ts";
+import {EExitCode} from "../types/EExitCode.ts";
+import {UsageError} from "../errors/UsageError.ts";
+import {File} from "../../File.ts";
+import {openCard} from "../utils/openCard.ts";
+import {parseCardPath} from "../utils/parseCardPath.ts";
+import {resolveEntry} from "../../utils/resolveEntry.ts";
+import {print, printJson} from "../utils/print.ts";
+import {ProgressBar} from "../ProgressBar.ts";
+
+/**
+ * Downloads the file while drawing progress, local modification time is set from the card. Data go to ".part" file
+ * renamed once complete, so interrupted download never leaves truncated file under the final name.
+ */
+const downloadFile = async (file: File, localPath: string, json: boolean): Promise<void> => {
+	const progress = new ProgressBar(file.size, file.name, !json);
+	const partialPath = `${localPath}.part`;
+	let done = 0;
+
+	await pipeline(
+		file.createReadStream(),
+		new Transform({
+			transform(chunk: Buffer, encoding, callback) {
+				done += chunk.length;
+				progress.update(done);
+				callback(null, chunk);
+			},
+		}),
+		fs.createWriteStream(partialPath),
+	);
+	progress.finish();
+
+	await fsPromises.utimes(partialPath, file.modificationDate, file.modificationDate);
+	await fsPromises.rename(partialPath, localPath);
+}
+
+export const getCommand: ICliCommand = {
+	name: "get",
+	usage: "<ip>:/path [<local>]",
+	description: "Downloads file, or whole directory with only changed files",
+	options: {},
+
+	async run(options, values, positionals) {
+		if(positionals.length < 1 || positionals.length > 2) {
+			throw new UsageError("Expected <ip>:/path and optional local path");
+		}
+
+		const {ip, path} = parseCardPath(positionals[0]);
+		const card = openCard(ip, options);
+		try {
+			const fsAdapter = await card.getFileSystemAdapter(options.partition);
+			const entry = await resolveEntry(fsAdapter, path);
+			let localPath = positionals[1] ?? (nodePath.posix.basename(path) || ".");
+
+			if(entry instanceof File) {
+				// Download into existing directory under the card's name
+				if((await fsPromises.stat(localPath).catch(() => null))?.isDirectory()) {
+					localPath = nodePath.join(localPath, entry.name);
+				}
+
+				await downloadFile(entry, localPath, options.json);
+				if(options.json) {
+					printJson({path: localPath, size: entry.size});
+				} else {
+					print(localPath);
+				}
+			} else {
+				const progress = new ProgressBar(0, "", !options.json);
+				const result = await entry.syncTo(localPath, {
+					onProgress: (syncProgress) => {
+						progress.setTotal(syncProgress.bytesTotal);
+						progress.update(syncProgress.bytesDone, syncProgress.path);
+					},
+				});
+				progress.finish();
+
+				if(options.json) {
+					printJson(result);
+				} else {
+					print(`${result.downloadedFiles} files downloaded, ${result.upToDateFiles} up to date`);
+				}
+			}
+		} finally {
+			card.destroy();
+		}
+
+		return EExitCode.OK;
+	},
+};
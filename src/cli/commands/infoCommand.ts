@@ -0,0 +1,39 @@
+import type {ICliCommand} from "../types/ICliCommand.ts";
+import {EExitCode} from "../types/EExitCode.ts";
+import {UsageError} from "../errors/UsageError.ts";
+import {openCard} from "../utils/openCard.ts";
+import {print, printJson} from "../utils/print.ts";
+import {formatBytes} from "../utils/formatBytes.ts";
+
+export const infoCommand: ICliCommand = {
+	name: "info",
+	usage: "<ip>",
+	description: "Prints card information",
+	options: {},
+
+	async run(options, values, positionals) {
+		if(positionals.length !== 1) {
+			throw new UsageError("Expected IP address of the card");
+		}
+
+		const card = openCard(positionals[0], options);
+		try {
+			const info = await card.readInfo();
+			if(options.json) {
+				printJson(info);
+			} else {
+				print(`IP:         ${info.ip}`);
+				print(`MAC:        ${info.mac}`);
+				print(`Type:       ${info.type}`);
+				print(`Capacity:   ${info.capacity} blocks (${formatBytes(info.capacity * card.blockSize)})`);
+				print(`AP mode:    ${info.apMode ? "enabled" : "disabled"}`);
+				print(`Version:    ${info.version}`);
+				print(`Subversion: ${info.subver}`);
+			}
+		} finally {
+			card.destroy();
+		}
+
+		return EExitCode.OK;
+	},
+};
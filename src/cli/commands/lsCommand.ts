@@ -0,0 +1,65 @@
+import type {ICliCommand} from "../types/ICliCommand.ts";
+import {EExitCode} from "../types/EExitCode.ts";
+import {UsageError} from "../errors/UsageError.ts";
+import {File} from "../../File.ts";
+import type {Directory} from "../../Directory.ts";
+import {openCard} from "../utils/openCard.ts";
+import {parseCardPath} from "../utils/parseCardPath.ts";
+import {resolveEntry} from "../../utils/resolveEntry.ts";
+import {entryToJson} from "../utils/entryToJson.ts";
+import {print, printJson} from "../utils/print.ts";
+
+export const lsCommand: ICliCommand = {
+	name: "ls",
+	usage: "<ip>:/path [-R]",
+	description: "Lists directory on the card",
+	options: {
+		recursive: {type: "boolean", short: "R", default: false},
+	},
+
+	async run(options, values, positionals) {
+		if(positionals.length !== 1) {
+			throw new UsageError("Expected <ip>:/path");
+		}
+
+		const {ip, path} = parseCardPath(positionals[0]);
+		const card = openCard(ip, options);
+		try {
+			const fsAdapter = await card.getFileSystemAdapter(options.partition);
+			const root = await resolveEntry(fsAdapter, path);
+			const entries: {path: string, entry: Directory | File}[] = [];
+
+			const listDirectory = async (directory: Directory, prefix: string): Promise<void> => {
+				for(const entry of await directory.list()) {
+					if(entry.name === "." || entry.name === "..") {
+						continue;
+					}
+
+					entries.push({path: prefix + entry.name, entry});
+					if(!(entry instanceof File) && values.recursive) {
+						await listDirectory(entry, `${prefix}${entry.name}/`);
+					}
+				}
+			};
+
+			if(root instanceof File) {
+				entries.push({path: root.name, entry: root});
+			} else {
+				await listDirectory(root, "");
+			}
+
+			if(options.json) {
+				printJson(entries.map(({path, entry}) => entryToJson(entry, path)));
+			} else {
+				for(const {path, entry} of entries) {
+					const size = entry instanceof File ? String(entry.size) : "";
+					print(`${entry instanceof File ? "-" : "d"}\t${size.padStart(12)}\t${entry.modificationDate.toISOString()}\t${path}`);
+				}
+			}
+		} finally {
+			card.destroy();
+		}
+
+		return EExitCode.OK;
+	},
+};
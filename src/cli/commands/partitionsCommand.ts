@@ -0,0 +1,43 @@
+import type {ICliCommand} from "../types/ICliCommand.ts";
+import {EExitCode} from "../types/EExitCode.ts";
+import {UsageError} from "../errors/UsageError.ts";
+import {MBRUtility} from "../../fs/MBRUtility.ts";
+import {openCard} from "../utils/openCard.ts";
+import {print, printJson} from "../utils/print.ts";
+import {formatBytes} from "../utils/formatBytes.ts";
+
+export const partitionsCommand: ICliCommand = {
+	name: "partitions",
+	usage: "<ip>",
+	description: "Lists partitions of the card, index is used by --partition",
+	options: {},
+
+	async run(options, values, positionals) {
+		if(positionals.length !== 1) {
+			throw new UsageError("Expected IP address of the card");
+		}
+
+		const card = openCard(positionals[0], options);
+		try {
+			const partitions = await new MBRUtility(card).getPartitions();
+			if(options.json) {
+				printJson(partitions.map((partition, index) => ({index, ...partition})));
+			} else {
+				print("Index\tNumber\tKind\tType\tStart LBA\tBlocks\tSize");
+				partitions.forEach((partition, index) => print([
+					index,
+					partition.number,
+					partition.kind,
+					partition.type,
+					partition.startLBA,
+					partition.length,
+					formatBytes(partition.length * card.blockSize),
+				].join("\t")));
+			}
+		} finally {
+			card.destroy();
+		}
+
+		return EExitCode.OK;
+	},
+};
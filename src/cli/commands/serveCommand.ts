@@ -0,0 +1,74 @@
+import type {ICliCommand} from "../types/ICliCommand.ts";
+import {EExitCode} from "../types/EExitCode.ts";
+import {NetworkDiscovery} from "../../NetworkDiscovery.ts";
+import {CARD_PORT} from "../../constants/CARD_PORT.ts";
+import type {Card} from "../../Card.ts";
+import {WebDavServer} from "../../webdav/WebDavServer.ts";
+import {openCard} from "../utils/openCard.ts";
+import {print, printJson} from "../utils/print.ts";
+
+export const serveCommand: ICliCommand = {
+	name: "serve",
+	usage: "[<ip>...] [--broadcast <address>...] [--listen <port>] [--host <address>]",
+	description: "Shares cards over WebDAV under /cards/<mac>/ until interrupted, cards are discovered unless IPs are given",
+	options: {
+		broadcast: {type: "string", short: "b", multiple: true, default: ["auto"]},
+		listen: {type: "string", short: "l", default: "8080"},
+		host: {type: "string", default: "127.0.0.1"},
+	},
+
+	async run(options, values, positionals) {
+		const server = new WebDavServer({
+			port: Number(values.listen),
+			host: values.host as string,
+			partition: options.partition,
+		});
+		const cards: Card[] = [];
+		let discovery: NetworkDiscovery | null = null;
+
+		const addCard = (card: Card): void => {
+			const key = server.addCard(card);
+			if(options.json) {
+				printJson({event: "card-added", ip: card.ip, key});
+			} else {
+				print(`Serving ${card.ip} at /cards/${key}/`);
+			}
+		};
+
+		try {
+			const port = await server.start();
+			if(options.json) {
+				printJson({event: "listening", host: values.host, port});
+			} else {
+				print(`WebDAV server listening on http://${values.host}:${port}/cards/`);
+			}
+
+			if(positionals.length > 0) {
+				for(const ip of positionals) {
+					const card = openCard(ip, options);
+					cards.push(card);
+					addCard(card);
+				}
+			} else {
+				discovery = new NetworkDiscovery(
+					values.broadcast as string[],
+					() => options.user !== undefined ? {username: options.user, password: options.password ?? ""} : undefined,
+					options.port ?? CARD_PORT,
+				);
+				discovery.onCardDiscovered = addCard;
+				discovery.startDiscovering();
+			}
+
+			await new Promise<void>((resolve) => {
+				process.once("SIGINT", resolve);
+				process.once("SIGTERM", resolve);
+			});
+		} finally {
+			discovery?.destroy();
+			cards.forEach((card) => card.destroy());
+			await server.close();
+		}
+
+		return EExitCode.OK;
+	},
+};
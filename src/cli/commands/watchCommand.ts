@@ -0,0 +1,118 @@
+import {spawn} from "node:child_process";
+import fsPromises from "node:fs/promises";
+import nodePath from "node:path";
+import type {ICliCommand} from "../types/ICliCommand.ts";
+import {EExitCode} from "../types/EExitCode.ts";
+import {UsageError} from "../errors/UsageError.ts";
+import {File} from "../../File.ts";
+import type {Directory} from "../../Directory.ts";
+import {JsonFileWatchStateStore} from "../../watch/JsonFileWatchStateStore.ts";
+import {openCard} from "../utils/openCard.ts";
+import {parseCardPath} from "../utils/parseCardPath.ts";
+import {resolveEntry} from "../../utils/resolveEntry.ts";
+import {entryToJson} from "../utils/entryToJson.ts";
+import {print, printJson} from "../utils/print.ts";
+
+/**
+ * Quotes the argument for POSIX shell.
+ */
+const shellQuote = (argument: string): string => `'${argument.replaceAll("'", `'\\''`)}'`;
+
+/**
+ * Runs the command with "{}" replaced by the path, output of the command goes to stderr.
+ */
+const execCommand = (command: string, path: string): Promise<void> => new Promise((resolve) => {
+	const child = spawn(command.replaceAll("{}", shellQuote(path)), {shell: true, stdio: ["ignore", process.stderr, process.stderr]});
+	child.on("error", (err) => {
+		console.error(`Command failed to start: ${err.message}`);
+		resolve();
+	});
+	child.on("exit", (code) => {
+		if(code !== 0) {
+			console.error(`Command exited with code ${code} for ${path}`);
+		}
+		resolve();
+	});
+});
+
+export const watchCommand: ICliCommand = {
+	name: "watch",
+	usage: "<ip>:/path [-R] [--download <dir>] [--exec 'cmd {}'] [--state <file>] [--interval <ms>]",
+	description: "Prints changes in directory until interrupted, new files can be downloaded and passed to a command",
+	options: {
+		recursive: {type: "boolean", short: "R", default: false},
+		download: {type: "string", short: "d"},
+		exec: {type: "string", short: "e"},
+		state: {type: "string"},
+		interval: {type: "string", default: "5000"},
+	},
+
+	async run(options, values, positionals) {
+		if(positionals.length !== 1) {
+			throw new UsageError("Expected <ip>:/path");
+		}
+
+		const {ip, path} = parseCardPath(positionals[0]);
+		const card = openCard(ip, options);
+		try {
+			const directory = await resolveEntry(await card.getFileSystemAdapter(options.partition), path);
+			if(directory instanceof File) {
+				throw new UsageError(`${path} is a file, watch needs a directory`);
+			}
+
+			const watch = await directory.watchDirectory({
+				recursive: values.recursive as boolean,
+				stateStore: values.state ? new JsonFileWatchStateStore(values.state as string) : undefined,
+			});
+
+			try {
+				const report = (event: string, entry: Directory | File, entryPath: string): void => {
+					if(options.json) {
+						printJson({event, ...entryToJson(entry, entryPath)});
+					} else {
+						print(`${event}\t${entryPath}`);
+					}
+				};
+
+				// New files are handled one by one, parallel downloads would only compete for the card
+				let queue: Promise<void> = Promise.resolve();
+				const handleNewFile = async (file: File, filePath: string): Promise<void> => {
+					let execPath = `${path.replace(/\/+$/, "")}/${filePath}`;
+					if(values.download) {
+						execPath = nodePath.join(values.download as string, ...filePath.split("/"));
+						await fsPromises.mkdir(nodePath.dirname(execPath), {recursive: true});
+						await file.download(execPath);
+						await fsPromises.utimes(execPath, file.modificationDate, file.modificationDate);
+					}
+					if(values.exec) {
+						await execCommand(values.exec as string, execPath);
+					}
+				};
+
+				watch.onNewFile = (file, filePath) => {
+					report("new", file, filePath);
+					queue = queue
+						.then(() => handleNewFile(file, filePath))
+						.catch((err) => console.error(`Handling ${filePath} failed: ${err.message}`));
+				};
+				watch.onFileModified = (file, filePath) => report("modified", file, filePath);
+				watch.onFileRemoved = (file, filePath) => report("removed", file, filePath);
+				watch.onDirectoryAdded = (added, directoryPath) => report("directory-added", added, directoryPath);
+				watch.onDirectoryRemoved = (removed, directoryPath) => report("directory-removed", removed, directoryPath);
+				watch.start(Number(values.interval));
+
+				await new Promise<void>((resolve) => {
+					process.once("SIGINT", resolve);
+					process.once("SIGTERM", resolve);
+				});
+				await queue;
+			} finally {
+				watch.destroy();
+			}
+		} finally {
+			card.destroy();
+		}
+
+		return EExitCode.OK;
+	},
+};
@@ -0,0 +1,9 @@
+/**
+ * Invalid command line, reported together with usage of the command.
+ */
+export class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = new.target.name;
+	}
+}
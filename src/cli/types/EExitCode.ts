@@ -0,0 +1,16 @@
+export enum EExitCode {
+	OK = 0,
+	ERROR = 1,
+
+	/**
+	 * Unknown command, missing argument or invalid option.
+	 */
+	USAGE = 2,
+	NOT_FOUND = 3,
+
+	/**
+	 * Card did not respond or no card was discovered.
+	 */
+	UNREACHABLE = 4,
+	AUTHENTICATION_FAILED = 5,
+}
@@ -0,0 +1,24 @@
+import type {ParseArgsConfig} from "node:util";
+import type {ICliOptions} from "./ICliOptions.ts";
+import type {EExitCode} from "./EExitCode.ts";
+
+export interface ICliCommand {
+	name: string;
+
+	/**
+	 * Arguments of the command for help, eg. "<ip>:/path <local>".
+	 */
+	usage: string;
+	description: string;
+
+	/**
+	 * Options of the command, in addition to common ones.
+	 */
+	options: NonNullable<ParseArgsConfig["options"]>;
+
+	/**
+	 * @param values Values of the command options, parsed by node:util parseArgs.
+	 * @param positionals Arguments of the command.
+	 */
+	run(options: ICliOptions, values: {[name: string]: string | boolean | (string | boolean)[] | undefined}, positionals: string[]): Promise<EExitCode>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Options accepted by all commands.
+ */
+export interface ICliOptions {
+	/**
+	 * Print machine-readable JSON to stdout instead of text.
+	 */
+	json: boolean;
+	user?: string;
+	password?: string;
+
+	/**
+	 * UDP port of the card, for CardSimulator.
+	 */
+	port?: number;
+	partition: number;
+}
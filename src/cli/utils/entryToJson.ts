@@ -0,0 +1,11 @@
+import {File} from "../../File.ts";
+import type {Directory} from "../../Directory.ts";
+
+export const entryToJson = (entry: Directory | File, path: string): object => ({
+	path,
+	name: entry.name,
+	type: entry instanceof File ? "file" : "directory",
+	size: entry instanceof File ? entry.size : 0,
+	creationTime: entry.creationDate.toISOString(),
+	modificationTime: entry.modificationDate.toISOString(),
+});
@@ -0,0 +1,27 @@
+import {EExitCode} from "../types/EExitCode.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {UsageError} from "../errors/UsageError.ts";
+
+export const exitCodeForError = (err: unknown): EExitCode => {
+	// Unknown or invalid option reported by node:util parseArgs
+	if(err instanceof UsageError || (err as NodeJS.ErrnoException)?.code?.startsWith("ERR_PARSE_ARGS")) {
+		return EExitCode.USAGE;
+	}
+	if(!(err instanceof WifiSdcfError)) {
+		return EExitCode.ERROR;
+	}
+
+	switch(err.code) {
+		case EErrorCode.INVALID_ARGUMENT:
+			return EExitCode.USAGE;
+		case EErrorCode.PATH_NOT_FOUND:
+			return EExitCode.NOT_FOUND;
+		case EErrorCode.TIMEOUT:
+			return EExitCode.UNREACHABLE;
+		case EErrorCode.AUTHENTICATION_FAILED:
+			return EExitCode.AUTHENTICATION_FAILED;
+		default:
+			return EExitCode.ERROR;
+	}
+}
@@ -0,0 +1,14 @@
+import {Card} from "../../Card.ts";
+import type {ICliOptions} from "../types/ICliOptions.ts";
+import {UsageError} from "../errors/UsageError.ts";
+
+export const openCard = (ip: string, options: ICliOptions): Card => {
+	if((options.user === undefined) !== (options.password === undefined)) {
+		throw new UsageError("--user and --password must be used together");
+	}
+
+	return new Card(ip, undefined, undefined, undefined, undefined, undefined, undefined, {
+		credentials: options.user !== undefined ? {username: options.user, password: options.password!} : undefined,
+		port: options.port,
+	});
+}
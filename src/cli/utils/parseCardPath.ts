@@ -0,0 +1,15 @@
+import {UsageError} from "../errors/UsageError.ts";
+
+/**
+ * Parses "<ip>:/path" argument, path defaults to root.
+ * @throws {UsageError} When the argument does not start with IP address.
+ */
+export const parseCardPath = (argument: string): {ip: string, path: string} => {
+	const match = /^(\d{1,3}(?:\.\d{1,3}){3})(?::(.*))?$/.exec(argument);
+	if(!match) {
+		throw new UsageError(`Expected <ip>:/path, got "${argument}"`);
+	}
+
+	const path = match[2] || "/";
+	return {ip: match[1], path: path.startsWith("/") ? path : `/${path}`};
+}
@@ -0,0 +1,11 @@
+/**
+ * Writes command output to stdout. Library diagnostics are redirected to stderr, so stdout stays parseable.
+ */
+export const print = (text: string): void => {
+	process.stdout.write(`${text}\n`);
+}
+
+
+export const printJson = (value: unknown): void => {
+	print(JSON.stringify(value));
+}
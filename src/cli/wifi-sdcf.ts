@@ -0,0 +1,112 @@
+import {parseArgs} from "node:util";
+import type {ParseArgsConfig} from "node:util";
+import type {ICliCommand} from "./types/ICliCommand.ts";
+import type {ICliOptions} from "./types/ICliOptions.ts";
+import {EExitCode} from "./types/EExitCode.ts";
+import {UsageError} from "./errors/UsageError.ts";
+import {WifiSdcfError} from "../errors/WifiSdcfError.ts";
+import {exitCodeForError} from "./utils/exitCodeForError.ts";
+import {printJson} from "./utils/print.ts";
+import {discoverCommand} from "./commands/discoverCommand.ts";
+import {infoCommand} from "./commands/infoCommand.ts";
+import {partitionsCommand} from "./commands/partitionsCommand.ts";
+import {lsCommand} from "./commands/lsCommand.ts";
+import {getCommand} from "./commands/getCommand.ts";
+import {watchCommand} from "./commands/watchCommand.ts";
+import {serveCommand} from "./commands/serveCommand.ts";
+
+const COMMANDS: ICliCommand[] = [discoverCommand, infoCommand, partitionsCommand, lsCommand, getCommand, watchCommand, serveCommand];
+
+const COMMON_OPTIONS: NonNullable<ParseArgsConfig["options"]> = {
+	json: {type: "boolean", default: false},
+	user: {type: "string", short: "u"},
+	password: {type: "string"},
+	port: {type: "string"},
+	partition: {type: "string", short: "p", default: "0"},
+	help: {type: "boolean", short: "h", default: false},
+};
+
+const usage = (command?: ICliCommand): string => {
+	const common = "Common options: --json, --user <name> --password <password>, --port <udp port>, --partition <index>";
+	if(command) {
+		return `Usage: wifi-sdcf ${command.name} ${command.usage}\n${command.description}\n${common}`;
+	}
+
+	return [
+		"Usage: wifi-sdcf <command> [options]",
+		"",
+		...COMMANDS.map((command) => `  ${command.name.padEnd(11)} ${command.usage}\n  ${"".padEnd(11)} ${command.description}`),
+		"",
+		common,
+		"",
+		"Exit codes: 0 success, 1 error, 2 invalid usage, 3 path not found, 4 card unreachable, 5 wrong credentials",
+	].join("\n");
+}
+
+const parseNumber = (name: string, value: string | undefined): number | undefined => {
+	if(value === undefined) {
+		return undefined;
+	}
+	if(!/^\d+$/.test(value)) {
+		throw new UsageError(`--${name} must be a number, got "${value}"`);
+	}
+
+	return Number(value);
+}
+
+const main = async (argv: string[]): Promise<EExitCode> => {
+	if(argv.length === 0 || argv[0] === "--help" || argv[0] === "-h") {
+		console.error(usage());
+		return argv.length === 0 ? EExitCode.USAGE : EExitCode.OK;
+	}
+
+	const command = COMMANDS.find((command) => command.name === argv[0]);
+	if(!command) {
+		console.error(`Unknown command "${argv[0]}"\n\n${usage()}`);
+		return EExitCode.USAGE;
+	}
+
+	let json = argv.includes("--json");
+	try {
+		const {values, positionals} = parseArgs({
+			args: argv.slice(1),
+			options: {...COMMON_OPTIONS, ...command.options},
+			allowPositionals: true,
+		});
+		if(values.help) {
+			console.error(usage(command));
+			return EExitCode.OK;
+		}
+
+		json = values.json as boolean;
+		const options: ICliOptions = {
+			json,
+			user: values.user as string | undefined,
+			password: values.password as string | undefined,
+			port: parseNumber("port", values.port as string | undefined),
+			partition: parseNumber("partition", values.partition as string)!,
+		};
+
+		return await command.run(options, values, positionals);
+	} catch(err) {
+		const exitCode = exitCodeForError(err);
+		const message = err instanceof Error ? err.message : String(err);
+		if(json) {
+			printJson({error: {code: err instanceof WifiSdcfError ? err.code : null, message}});
+		}
+		console.error(`Error: ${message}`);
+		if(exitCode === EExitCode.USAGE) {
+			console.error(`\n${usage(command)}`);
+		}
+
+		return exitCode;
+	}
+}
+
+// Library reports diagnostics by console.log, stdout is kept for output of commands
+console.log = console.error;
+console.info = console.error;
+
+process.exitCode = await main(process.argv.slice(2));
+// UDP socket of the library would keep the process running
+process.exit();
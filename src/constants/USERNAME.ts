@@ -1,4 +1,4 @@
 /**
- * Hardcoded in firmware
+ * Default set in firmware, can be overridden per card by ICardOptions.credentials
  */
 export const USERNAME: string = "admin";
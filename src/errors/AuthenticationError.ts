@@ -0,0 +1,11 @@
+import {WifiSdcfError} from "./WifiSdcfError.ts";
+import {EErrorCode} from "../types/EErrorCode.ts";
+
+export class AuthenticationError extends WifiSdcfError {
+	constructor(
+		public ip: string,
+		public username: string,
+	) {
+		super(EErrorCode.AUTHENTICATION_FAILED, `Card ${ip} refused credentials of user "${username}"`);
+	}
+}
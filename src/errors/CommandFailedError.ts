@@ -0,0 +1,11 @@
+import {WifiSdcfError} from "./WifiSdcfError.ts";
+import {EErrorCode} from "../types/EErrorCode.ts";
+
+export class CommandFailedError extends WifiSdcfError {
+	constructor(
+		public command: number,
+		public status: number,
+	) {
+		super(EErrorCode.COMMAND_FAILED, `Card refused command ${command} with status ${status}`);
+	}
+}
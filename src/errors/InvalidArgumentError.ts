@@ -0,0 +1,13 @@
+import {WifiSdcfError} from "./WifiSdcfError.ts";
+import {EErrorCode} from "../types/EErrorCode.ts";
+
+/**
+ * Argument passed by the caller is refused before anything is sent to the card, eg. invalid path or name.
+ */
+export class InvalidArgumentError extends WifiSdcfError {
+	constructor(
+		message: string,
+	) {
+		super(EErrorCode.INVALID_ARGUMENT, message);
+	}
+}
@@ -0,0 +1,11 @@
+import {WifiSdcfError} from "./WifiSdcfError.ts";
+import {EErrorCode} from "../types/EErrorCode.ts";
+
+export class LbaOutOfRangeError extends WifiSdcfError {
+	constructor(
+		public lba: number,
+		public count: number,
+	) {
+		super(EErrorCode.LBA_OUT_OF_RANGE, `Blocks ${lba} to ${lba + count - 1} are out of range of the card`);
+	}
+}
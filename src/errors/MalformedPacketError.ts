@@ -0,0 +1,11 @@
+import {WifiSdcfError} from "./WifiSdcfError.ts";
+import {EErrorCode} from "../types/EErrorCode.ts";
+
+export class MalformedPacketError extends WifiSdcfError {
+	constructor(
+		public packet: Buffer,
+		public reason: string,
+	) {
+		super(EErrorCode.MALFORMED_PACKET, `Malformed packet from card: ${reason}`);
+	}
+}
@@ -1,6 +1,19 @@
-export class TimeoutError {
+import {WifiSdcfError} from "./WifiSdcfError.ts";
+import {EErrorCode} from "../types/EErrorCode.ts";
+
+export class TimeoutError extends WifiSdcfError {
+	/**
+	 * @param requestMsg Request which was not answered.
+	 * @param attempts Count of sent attempts.
+	 * @param lba First block of read or write request, null for other commands.
+	 */
 	constructor(
 		public requestMsg: Buffer,
+		public attempts: number,
+		public lba: number | null,
 	) {
+		// Info request is just "KTC" without command byte
+		const command = requestMsg.length > 7 ? `command ${requestMsg[7]}` : `"${requestMsg.toString("ascii")}"`;
+		super(EErrorCode.TIMEOUT, `Card did not respond to ${command}${lba === null ? '' : ` at LBA ${lba}`} after ${attempts} attempts`);
 	}
 }
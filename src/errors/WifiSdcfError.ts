@@ -0,0 +1,14 @@
+import type {EErrorCode} from "../types/EErrorCode.ts";
+
+/**
+ * Base of all errors thrown by this library. Use `instanceof` on subclasses or compare `code` to handle them.
+ */
+export class WifiSdcfError extends Error {
+	constructor(
+		public readonly code: EErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = new.target.name;
+	}
+}
@@ -0,0 +1,708 @@
+import type {IFileInfo} from "./types/IFileInfo.ts";
+import type {IFileSystemAdapter} from "./types/IFileSystemAdapter.ts";
+import type {IBlockDevice} from "../types/IBlockDevice.ts";
+import type {IPartitionInfo} from "./types/IPartitionInfo.ts";
+import type {INewDataNotification} from "../types/INewDataNotification.ts";
+import type {IBlockRange} from "../types/IBlockRange.ts";
+import {ResolvablePromise} from "../utils/ResolvablePromise.ts";
+import {Directory} from "../Directory.ts";
+import {DirectoryNotFoundError} from "./errors/DirectoryNotFoundError.ts";
+import {UnsupportedOperationError} from "./errors/UnsupportedOperationError.ts";
+import {FileSystemCorruptedError} from "./errors/FileSystemCorruptedError.ts";
+
+/**
+ * Size of block returned by the card, all offsets in exFAT structures are converted to these blocks.
+ */
+const BLOCK_SIZE = 512;
+
+/**
+ * Directory entry is 32 bytes long, entry sets are made of multiple of these.
+ */
+const ENTRY_SIZE = 32;
+
+/**
+ * Used specification: https://learn.microsoft.com/en-us/windows/win32/fileio/exfat-specification
+ */
+export class ExFATAdapter implements IFileSystemAdapter {
+
+	/**
+	 * BytesPerSectorShift
+	 *
+	 * Bytes per sector expressed as log2(N). Valid values are 9 (512 bytes) to 12 (4096 bytes).
+	 */
+	protected sectorSize: number;
+
+	/**
+	 * SectorsPerClusterShift
+	 *
+	 * Sectors per cluster expressed as log2(N). Maximal cluster size is 32 MB.
+	 */
+	protected sectorsPerCluster: number;
+
+	/**
+	 * FatOffset
+	 *
+	 * Volume-relative sector offset of the First FAT.
+	 */
+	protected fatOffset: number;
+
+	/**
+	 * FatLength
+	 *
+	 * Length, in sectors, of each FAT table.
+	 */
+	protected fatLength: number;
+
+	/**
+	 * NumberOfFats
+	 *
+	 * Number of FATs and Allocation Bitmaps the volume contains. 1 or 2 (TexFAT only).
+	 */
+	protected numberOfFATs: number;
+
+	/**
+	 * ClusterHeapOffset
+	 *
+	 * Volume-relative sector offset of the Cluster Heap.
+	 */
+	protected clusterHeapOffset: number;
+
+	/**
+	 * ClusterCount
+	 *
+	 * Number of clusters the Cluster Heap contains.
+	 */
+	protected clusterCount: number;
+
+	/**
+	 * FirstClusterOfRootDirectory
+	 *
+	 * Cluster index of the first cluster of the root directory. Root directory always uses FAT chain.
+	 */
+	protected rootCluster: number;
+
+	/**
+	 * Allocation Bitmap, each bit describes allocation state of one cluster starting with cluster 2.
+	 */
+	protected allocationBitmap: Buffer = Buffer.alloc(0);
+
+	/**
+	 * Up-case Table, maps each UTF-16 code unit to its upper case variant. Used for name comparison.
+	 */
+	protected upCaseTable: Uint16Array = new Uint16Array(0x10000);
+
+	protected volumeLabel: string = "";
+
+	/**
+	 * Position in cluster chain where the last readRange ended.
+	 */
+	protected lastChainPosition: {firstCluster: number, index: number, cluster: number} | null = null;
+
+	/**
+	 * Listeners registered to the device for subscribed callbacks, needed to unsubscribe them.
+	 */
+	protected changeListeners: Map<() => void, (notification: INewDataNotification) => void> = new Map();
+
+	protected initialised: ResolvablePromise<void> = new ResolvablePromise();
+
+
+	constructor(
+		protected device: IBlockDevice,
+		protected partitionInfo: IPartitionInfo,
+	) {
+		this.readBootSector();
+	}
+
+
+	/**
+	 * Get Directory class instance for specified path. This class instance can be used to list files in the directory,
+	 */
+	public async getDirectory(path: string): Promise<Directory> {
+		await this.initialised;
+
+		// remove / from end
+		if(path.endsWith('/')) {
+			path = path.slice(0, -1);
+		}
+		const parent = path.split('/').slice(0, -1).join('/');
+		const dirName = path.split('/').pop() || '';
+
+		if(parent === "" && dirName === "") {
+			return new Directory(this, "/", this.getRootDirectoryInfo());
+		}
+
+		const parentDir = await this.listFolder(parent);
+		const item = parentDir.find(file => file.isDirectory && this.compareNames(file.name, dirName));
+		if(!item) {
+			throw new DirectoryNotFoundError(path);
+		}
+
+		return new Directory(this, path, item);
+	}
+
+
+	/**
+	 * Read content of whole file from the card.
+	 */
+	public async getFileContent(file: IFileInfo): Promise<Buffer> {
+		return this.readRange(file, 0, file.size);
+	}
+
+
+	/**
+	 * Read part of the file. For contiguous files position of cluster is computed directly,
+	 * otherwise FAT is walked only up to the last cluster in the range.
+	 */
+	public async readRange(file: IFileInfo, offset: number, length: number): Promise<Buffer> {
+		await this.initialised;
+
+		const end = Math.min(file.size, offset + length);
+		if(offset >= end) {
+			return Buffer.alloc(0);
+		}
+
+		const clusterSize = this.sectorSize * this.sectorsPerCluster;
+		const firstIndex = Math.floor(offset / clusterSize);
+		const lastIndex = Math.floor((end - 1) / clusterSize);
+
+		let cluster = await this.seekCluster(file, firstIndex);
+
+		if(file.contiguous) {
+			// Whole range lies in consecutive clusters, so it can be read with one pipelined request
+			const firstByte = (cluster - 2) * clusterSize + offset % clusterSize;
+			const firstBlock = Math.floor(firstByte / BLOCK_SIZE);
+			const lastBlock = Math.floor((firstByte + end - offset - 1) / BLOCK_SIZE);
+			const data = await this.device.readBlocks(this.calculateFirstBlockOfCluster(2) + firstBlock, lastBlock - firstBlock + 1);
+			this.lastChainPosition = {firstCluster: file.clusterNumber, index: lastIndex, cluster: cluster + lastIndex - firstIndex};
+			return data.subarray(firstByte - firstBlock * BLOCK_SIZE, firstByte - firstBlock * BLOCK_SIZE + end - offset);
+		}
+
+		const buffers: Buffer[] = [];
+		for(let index = firstIndex; index <= lastIndex; index++) {
+			if(cluster < 2 || cluster > this.clusterCount + 1) {
+				throw new FileSystemCorruptedError(`Cluster chain of ${file.name} ends before the end of file`);
+			}
+
+			// Byte range within this cluster and blocks covering it
+			const from = index === firstIndex ? offset % clusterSize : 0;
+			const to = index === lastIndex ? ((end - 1) % clusterSize) + 1 : clusterSize;
+			const firstBlock = Math.floor(from / BLOCK_SIZE);
+			const lastBlock = Math.floor((to - 1) / BLOCK_SIZE);
+
+			const data = await this.device.readBlocks(
+				this.calculateFirstBlockOfCluster(cluster) + firstBlock,
+				lastBlock - firstBlock + 1
+			);
+			buffers.push(data.subarray(from - firstBlock * BLOCK_SIZE, to - firstBlock * BLOCK_SIZE));
+
+			if(index < lastIndex) {
+				cluster = file.contiguous ? cluster + 1 : await this.readNextCluster(cluster);
+			}
+		}
+
+		this.lastChainPosition = {firstCluster: file.clusterNumber, index: lastIndex, cluster};
+
+		return Buffer.concat(buffers);
+	}
+
+
+	/**
+	 * Free clusters are taken from the Allocation Bitmap.
+	 */
+	public async getFreeRanges(): Promise<IBlockRange[]> {
+		await this.initialised;
+
+		const blocksPerCluster = this.sectorsPerCluster * this.sectorSize / BLOCK_SIZE;
+		const ranges: IBlockRange[] = [];
+		for(let cluster = 2; cluster < this.clusterCount + 2; cluster++) {
+			if(this.isClusterAllocated(cluster)) {
+				continue;
+			}
+
+			const LBA_start = this.calculateFirstBlockOfCluster(cluster);
+			const last = ranges[ranges.length - 1];
+			if(last && last.LBA_start + last.count === LBA_start) {
+				last.count += blocksPerCluster;
+			} else {
+				ranges.push({LBA_start, count: blocksPerCluster});
+			}
+		}
+
+		return ranges;
+	}
+
+
+	/**
+	 * List files in the specified folder.
+	 */
+	public async listFolder(path: string | IFileInfo): Promise<IFileInfo[]> {
+		await this.initialised;
+
+		if(typeof path === 'object') {
+			return this.listDirectory(path);
+		}
+
+		const paths = path.split('/');
+		let files = await this.listDirectory(this.getRootDirectoryInfo());
+		while(paths.length > 0) {
+			const folderName = paths.shift();
+			if(!folderName) {
+				continue;
+			}
+
+			const folder = files.find(file => file.isDirectory && this.compareNames(file.name, folderName));
+			if(!folder) {
+				throw new DirectoryNotFoundError(path);
+			}
+
+			files = await this.listDirectory(folder);
+		}
+
+		return files;
+	}
+
+
+	/**
+	 * Forgets the last position in cluster chain, the chain could have been changed by the camera.
+	 */
+	public invalidateCache(): void {
+		this.lastChainPosition = null;
+	}
+
+
+	/**
+	 * Calls the callback when card reports new data written to this partition. Cache is invalidated before
+	 * the callback is called.
+	 */
+	public subscribeForChanges(callback: () => void): void {
+		const listener = (notification: INewDataNotification): void => {
+			const partitionEnd = this.partitionInfo.startLBA + this.partitionInfo.length;
+			const reportsRange = notification.count > 0;
+			if(reportsRange && (notification.LBA_start >= partitionEnd || notification.LBA_start + notification.count <= this.partitionInfo.startLBA)) {
+				return;
+			}
+
+			this.invalidateCache();
+			callback();
+		};
+
+		this.changeListeners.set(callback, listener);
+		this.device.subscribeForNewData?.(listener);
+	}
+
+
+	public unsubscribeForChanges(callback: () => void): void {
+		const listener = this.changeListeners.get(callback);
+		if(listener) {
+			this.device.unsubscribeForNewData?.(listener);
+			this.changeListeners.delete(callback);
+		}
+	}
+
+
+	/**
+	 * Writing is not implemented for exFAT volumes yet, same for all other modifying operations below.
+	 *
+	 * @throws {UnsupportedOperationError}
+	 */
+	public async writeFile(path: string, content: Buffer): Promise<IFileInfo> {
+		throw new UnsupportedOperationError("writeFile");
+	}
+
+
+	public async deleteFile(path: string): Promise<void> {
+		throw new UnsupportedOperationError("deleteFile");
+	}
+
+
+	public async rename(path: string, newName: string): Promise<IFileInfo> {
+		throw new UnsupportedOperationError("rename");
+	}
+
+
+	public async createDirectory(path: string): Promise<IFileInfo> {
+		throw new UnsupportedOperationError("createDirectory");
+	}
+
+
+	public async removeDirectory(path: string, recursive: boolean): Promise<void> {
+		throw new UnsupportedOperationError("removeDirectory");
+	}
+
+
+	/**
+	 * Compare two names by rules of exFAT file system, which is case-insensitive using the Up-case Table of the volume.
+	 */
+	public compareNames(name1: string, name2: string): boolean {
+		if(name1.length !== name2.length) {
+			return false;
+		}
+
+		for(let i = 0; i < name1.length; i++) {
+			if(this.upCaseTable[name1.charCodeAt(i)] !== this.upCaseTable[name2.charCodeAt(i)]) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+
+	/**
+	 * Checks in the Allocation Bitmap whether the cluster is in use.
+	 */
+	public isClusterAllocated(cluster: number): boolean {
+		const index = cluster - 2;
+		if(index < 0 || index >= this.clusterCount) {
+			return false;
+		}
+
+		return (this.allocationBitmap[index >> 3] & (1 << (index & 7))) !== 0;
+	}
+
+
+	protected async readBootSector(): Promise<void> {
+		const bootSector = await this.device.readBlocks(this.partitionInfo.startLBA, 1);
+
+		const fileSystemName = bootSector.toString('ascii', 3, 11);
+		if(fileSystemName !== "EXFAT   ") {
+			console.warn(`FileSystemName is "${fileSystemName}", this is not an exFAT volume.`);
+		}
+
+		this.fatOffset = bootSector.readUInt32LE(80);
+		this.fatLength = bootSector.readUInt32LE(84);
+		this.clusterHeapOffset = bootSector.readUInt32LE(88);
+		this.clusterCount = bootSector.readUInt32LE(92);
+		this.rootCluster = bootSector.readUInt32LE(96);
+		this.sectorSize = 1 << bootSector.readUInt8(108);
+		this.sectorsPerCluster = 1 << bootSector.readUInt8(109);
+		this.numberOfFATs = bootSector.readUInt8(110);
+
+		console.log("exFAT Boot Sector:");
+		console.log(` * Sector Size: ${this.sectorSize} bytes`);
+		console.log(` * Sectors per Cluster: ${this.sectorsPerCluster}`);
+		console.log(` * FAT Offset: ${this.fatOffset}`);
+		console.log(` * FAT Length: ${this.fatLength} sectors`);
+		console.log(` * Number of FATs: ${this.numberOfFATs}`);
+		console.log(` * Cluster Heap Offset: ${this.clusterHeapOffset}`);
+		console.log(` * Cluster Count: ${this.clusterCount}`);
+		console.log(` * Root Cluster: ${this.rootCluster}`);
+
+		await this.readRootMetadata();
+
+		this.initialised.resolve();
+	}
+
+
+	/**
+	 * Root directory contains critical primary entries - Allocation Bitmap, Up-case Table and Volume Label.
+	 */
+	protected async readRootMetadata(): Promise<void> {
+		const root = await this.readClusterChain(this.rootCluster, false);
+
+		let upCaseCluster = 0;
+		let upCaseLength = 0;
+		let upCaseChecksum = 0;
+
+		for(let offset = 0; offset + ENTRY_SIZE <= root.length; offset += ENTRY_SIZE) {
+			const entryType = root[offset];
+			if(entryType === 0x00) {
+				break;
+			}
+
+			switch(entryType) {
+				case 0x81: // Allocation Bitmap
+					// With two FATs (TexFAT), bit 0 of BitmapFlags says which bitmap this entry describes.
+					if((root[offset + 1] & 0x01) === 0) {
+						this.allocationBitmap = await this.readClusterChain(
+							root.readUInt32LE(offset + 20),
+							false,
+							Number(root.readBigUInt64LE(offset + 24)),
+						);
+					}
+					break;
+				case 0x82: // Up-case Table
+					upCaseChecksum = root.readUInt32LE(offset + 4);
+					upCaseCluster = root.readUInt32LE(offset + 20);
+					upCaseLength = Number(root.readBigUInt64LE(offset + 24));
+					break;
+				case 0x83: // Volume Label
+					this.volumeLabel = root.toString('utf16le', offset + 2, offset + 2 + root[offset + 1] * 2);
+					break;
+			}
+		}
+
+		for(let i = 0; i < this.upCaseTable.length; i++) {
+			this.upCaseTable[i] = i;
+		}
+
+		if(upCaseCluster === 0) {
+			console.warn("exFAT Up-case Table not found, using identity mapping for name comparison.");
+			return;
+		}
+
+		const table = (await this.readClusterChain(upCaseCluster, false, upCaseLength)).subarray(0, upCaseLength);
+
+		let checksum = 0;
+		for(const byte of table) {
+			checksum = ((checksum & 1 ? 0x80000000 : 0) + (checksum >>> 1) + byte) >>> 0;
+		}
+		if(checksum !== upCaseChecksum) {
+			console.warn("exFAT Up-case Table checksum mismatch, using identity mapping for name comparison.");
+			return;
+		}
+
+		// Table can be compressed - 0xFFFF followed by count of characters mapped to themselves
+		let character = 0;
+		for(let offset = 0; offset + 2 <= table.length && character < this.upCaseTable.length; offset += 2) {
+			const value = table.readUInt16LE(offset);
+			if(value === 0xFFFF && offset + 4 <= table.length) {
+				offset += 2;
+				character += table.readUInt16LE(offset);
+				continue;
+			}
+
+			this.upCaseTable[character] = value;
+			character++;
+		}
+	}
+
+
+	protected getRootDirectoryInfo(): IFileInfo {
+		return {
+			name: "",
+			size: 0,
+			isDirectory: true,
+			clusterNumber: this.rootCluster,
+			creationTime: new Date(),
+			modificationTime: new Date(),
+		};
+	}
+
+
+	/**
+	 * Given any valid data cluster number N, compute LBA of its first block on the card.
+	 */
+	protected calculateFirstBlockOfCluster(n: number): number {
+		const blocksPerSector = this.sectorSize / BLOCK_SIZE;
+		const sector = this.clusterHeapOffset + ((n - 2) * this.sectorsPerCluster);
+
+		return this.partitionInfo.startLBA + sector * blocksPerSector;
+	}
+
+
+	/**
+	 * Reads the next cluster number from the FAT.
+	 */
+	protected async readNextCluster(cluster: number): Promise<number> {
+		const blocksPerSector = this.sectorSize / BLOCK_SIZE;
+		const fatByteOffset = cluster * 4;
+		const fatBlock = Math.floor(fatByteOffset / BLOCK_SIZE);
+
+		const fatBuffer = await this.device.readBlocks(
+			this.partitionInfo.startLBA + this.fatOffset * blocksPerSector + fatBlock,
+			1
+		);
+
+		return fatBuffer.readUInt32LE(fatByteOffset % BLOCK_SIZE);
+	}
+
+
+	/**
+	 * Finds n-th cluster of the file. Continues from the last position of readRange when possible, so sequential
+	 * reads of the file do not walk the chain from the beginning again.
+	 */
+	protected async seekCluster(file: IFileInfo, index: number): Promise<number> {
+		if(file.contiguous) {
+			return file.clusterNumber + index;
+		}
+
+		let cluster = file.clusterNumber;
+		let current = 0;
+
+		const last = this.lastChainPosition;
+		if(last && last.firstCluster === file.clusterNumber && last.index <= index) {
+			cluster = last.cluster;
+			current = last.index;
+		}
+
+		for(; current < index && cluster >= 2 && cluster <= this.clusterCount + 1; current++) {
+			cluster = await this.readNextCluster(cluster);
+		}
+
+		return cluster;
+	}
+
+
+	/**
+	 * Reads data of cluster chain. When the chain is contiguous (NoFatChain flag), FAT is not consulted at all
+	 * and maxBytes must be specified.
+	 *
+	 * @param firstCluster First cluster of the chain
+	 * @param contiguous Whether clusters are allocated contiguously without FAT chain
+	 * @param maxBytes Stop reading after this amount of bytes, when not specified whole chain is read
+	 */
+	protected async readClusterChain(firstCluster: number, contiguous: boolean, maxBytes: number = Infinity): Promise<Buffer> {
+		const clusterSize = this.sectorSize * this.sectorsPerCluster;
+		const blocksPerCluster = clusterSize / BLOCK_SIZE;
+		const buffers: Buffer[] = [];
+		let remaining = maxBytes;
+		let cluster = firstCluster;
+
+		while(cluster >= 2 && cluster <= this.clusterCount + 1 && remaining > 0) {
+			// Merge consecutive clusters to read them in as few requests as possible
+			let runLength = 1;
+			let nextCluster: number;
+			if(contiguous) {
+				runLength = Math.ceil(remaining / clusterSize);
+				nextCluster = 0;
+			} else {
+				nextCluster = await this.readNextCluster(cluster);
+				while(nextCluster === cluster + runLength && (runLength + 1) * clusterSize < remaining) {
+					runLength++;
+					nextCluster = await this.readNextCluster(cluster + runLength - 1);
+				}
+			}
+
+			const firstBlock = this.calculateFirstBlockOfCluster(cluster);
+			const blocks = Math.min(runLength * blocksPerCluster, Math.ceil(remaining / BLOCK_SIZE));
+			buffers.push(await this.device.readBlocks(firstBlock, blocks));
+
+			remaining -= runLength * clusterSize;
+			cluster = nextCluster;
+		}
+
+		return Buffer.concat(buffers);
+	}
+
+
+	protected async listDirectory(directory: IFileInfo): Promise<IFileInfo[]> {
+		const maxBytes = directory.contiguous ? directory.size : Infinity;
+		const buffer = await this.readClusterChain(directory.clusterNumber, directory.contiguous ?? false, maxBytes);
+
+		const entries: IFileInfo[] = [];
+		for(let offset = 0; offset + ENTRY_SIZE <= buffer.length; offset += ENTRY_SIZE) {
+			const entryType = buffer[offset];
+
+			// End of directory marker, all following entries are unused as well
+			if(entryType === 0x00) {
+				break;
+			}
+
+			// Only File directory entry starts an entry set, everything else is either critical primary
+			// entry of root directory, deleted entry (InUse bit cleared) or orphaned secondary entry.
+			if(entryType !== 0x85) {
+				continue;
+			}
+
+			const secondaryCount = buffer[offset + 1];
+			const setLength = (secondaryCount + 1) * ENTRY_SIZE;
+			if(secondaryCount < 2 || offset + setLength > buffer.length) {
+				continue;
+			}
+
+			const entrySet = buffer.subarray(offset, offset + setLength);
+			if(this.calculateSetChecksum(entrySet) !== entrySet.readUInt16LE(2)) {
+				console.warn(`exFAT entry set checksum mismatch at offset ${offset}, skipping.`);
+				continue;
+			}
+
+			const entry = this.parseEntrySet(entrySet);
+			if(entry) {
+				entries.push(entry);
+				offset += setLength - ENTRY_SIZE;
+			}
+		}
+
+		return entries;
+	}
+
+
+	/**
+	 * Parse File directory entry followed by Stream Extension and File Name entries.
+	 */
+	protected parseEntrySet(entrySet: Buffer): IFileInfo | null {
+		const stream = entrySet.subarray(ENTRY_SIZE, ENTRY_SIZE * 2);
+		if(stream[0] !== 0xC0) {
+			return null;
+		}
+
+		const nameLength = stream[3];
+		let name = "";
+		for(let offset = ENTRY_SIZE * 2; offset < entrySet.length && name.length < nameLength; offset += ENTRY_SIZE) {
+			if(entrySet[offset] !== 0xC1) {
+				break;
+			}
+			name += entrySet.toString('utf16le', offset + 2, offset + ENTRY_SIZE);
+		}
+		name = name.slice(0, nameLength);
+
+		const attributes = entrySet.readUInt16LE(4);
+
+		return {
+			name: name,
+			size: Number(stream.readBigUInt64LE(24)),
+			isDirectory: (attributes & 0x10) !== 0,
+			clusterNumber: stream.readUInt32LE(20),
+			contiguous: (stream[1] & 0x02) !== 0,
+			creationTime: this.parseTimestamp(entrySet.readUInt32LE(8), entrySet[20], entrySet[22]),
+			modificationTime: this.parseTimestamp(entrySet.readUInt32LE(12), entrySet[21], entrySet[23]),
+		};
+	}
+
+
+	/**
+	 * EntrySetChecksum - all bytes of the entry set except the checksum field itself.
+	 */
+	protected calculateSetChecksum(entrySet: Buffer): number {
+		let checksum = 0;
+		for(let i = 0; i < entrySet.length; i++) {
+			if(i === 2 || i === 3) {
+				continue;
+			}
+			checksum = (((checksum & 1) ? 0x8000 : 0) + (checksum >> 1) + entrySet[i]) & 0xFFFF;
+		}
+
+		return checksum;
+	}
+
+
+	protected parseTimestamp(timestamp: number, increment10ms: number, utcOffset: number): Date {
+		/*
+		 * Timestamp:
+		 * Bits 0–4: 2-second count, valid value range 0–29 inclusive (0 – 58 seconds).
+		 * Bits 5–10: Minutes, valid value range 0–59 inclusive.
+		 * Bits 11–15: Hours, valid value range 0–23 inclusive
+		 * Bits 16–20: Day of month, valid value range 1-31 inclusive.
+		 * Bits 21–24: Month of year, 1 = January, valid value range 1–12 inclusive.
+		 * Bits 25–31: Count of years from 1980, valid value range 0–127 inclusive (1980–2107).
+		 *
+		 * UtcOffset:
+		 * Bits 0-6: Offset from UTC in 15 minute intervals, signed
+		 * Bit 7: OffsetValid, when cleared the timestamp is in local time
+		 */
+
+		const year = 1980 + (timestamp >>> 25);
+		const month = (timestamp >>> 21) & 0b1111;
+		const day = (timestamp >>> 16) & 0b11111;
+
+		const hour = (timestamp >>> 11) & 0b11111;
+		const minute = (timestamp >>> 5) & 0b111111;
+		const second = (timestamp & 0b11111) * 2;
+		const millisecond = increment10ms * 10;
+
+		if(month === 0 || day === 0) {
+			return new Date(0); // Return epoch for invalid date
+		}
+
+		if((utcOffset & 0x80) === 0) {
+			return new Date(year, month - 1, day, hour, minute, second, millisecond);
+		}
+
+		// Sign extend 7 bit value
+		const offsetMinutes = (((utcOffset & 0x7F) << 25) >> 25) * 15;
+		const utc = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+
+		return new Date(utc - offsetMinutes * 60_000);
+	}
+}
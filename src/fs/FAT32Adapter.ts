@@ -1,12 +1,85 @@
 import type { IFileInfo } from "./types/IFileInfo.ts";
 import type {IFileSystemAdapter} from "./types/IFileSystemAdapter.ts";
-import type {Card} from "../Card.ts";
+import type {IBlockDevice} from "../types/IBlockDevice.ts";
 import type {IPartitionInfo} from "./types/IPartitionInfo.ts";
+import type {INewDataNotification} from "../types/INewDataNotification.ts";
+import type {IBlockRange} from "../types/IBlockRange.ts";
 import {ResolvablePromise} from "../utils/ResolvablePromise.ts";
 import {Directory} from "../Directory.ts";
+import {EFileSystems} from "./types/EFileSystems.ts";
+import {DirectoryNotFoundError} from "./errors/DirectoryNotFoundError.ts";
+import {NotEnoughSpaceError} from "./errors/NotEnoughSpaceError.ts";
+import {FileNotFoundError} from "./errors/FileNotFoundError.ts";
+import {FileAlreadyExistsError} from "./errors/FileAlreadyExistsError.ts";
+import {DirectoryNotEmptyError} from "./errors/DirectoryNotEmptyError.ts";
+import {FileSystemCorruptedError} from "./errors/FileSystemCorruptedError.ts";
+import {LruCache} from "../utils/LruCache.ts";
+import {InvalidArgumentError} from "../errors/InvalidArgumentError.ts";
+
+/**
+ * Directory entry is 32 bytes long, long file name is stored in multiple entries preceding the short entry.
+ */
+const ENTRY_SIZE = 32;
+
+/**
+ * Attributes of short directory entry (DIR_Attr).
+ */
+const ATTR_VOLUME_ID = 0x08;
+const ATTR_DIRECTORY = 0x10;
+const ATTR_ARCHIVE = 0x20;
+const ATTR_LONG_NAME = 0x0F;
+
+/**
+ * Directory loaded with information where each of its sectors is stored, so entries can be written back.
+ */
+interface IDirectoryData {
+	buffer: Buffer;
+
+	/**
+	 * Volume relative sector number of each sector in buffer.
+	 */
+	sectors: number[];
+
+	/**
+	 * Cluster chain of the directory, empty for the fixed root directory of FAT12/16.
+	 */
+	clusters: number[];
+}
+
+/**
+ * Run of consecutive clusters in a cluster chain.
+ */
+interface IExtent {
+	firstCluster: number;
+	length: number;
+}
+
+/**
+ * Parsed directory entry together with its position in IDirectoryData buffer.
+ */
+interface IDirectoryRecord {
+	info: IFileInfo;
+
+	/**
+	 * Offset of the short entry in directory buffer.
+	 */
+	offset: number;
+
+	/**
+	 * Count of long file name entries directly preceding the short entry.
+	 */
+	longNameEntries: number;
+}
+
+/**
+ * Cluster number used for the fixed root directory region of FAT12 and FAT16 volumes, same as ".." entries use it.
+ */
+const FIXED_ROOT_CLUSTER = 0;
 
 /**
  * Used specification: https://www.cs.fsu.edu/~cop4610t/assignments/project3/spec/fatspec.pdf
+ *
+ * Despite the name, adapter handles FAT12 and FAT16 volumes as well.
  */
 export class FAT32Adapter implements IFileSystemAdapter {
 
@@ -110,15 +183,70 @@ export class FAT32Adapter implements IFileSystemAdapter {
 	 */
 	protected oneFatSize: number;
 
+	/**
+	 * FAT type is determined by the count of clusters on the volume and nothing else, see fatspec.pdf page 14.
+	 */
+	protected fatType: EFileSystems.FAT12 | EFileSystems.FAT16 | EFileSystems.FAT32;
+
+	/**
+	 * For FAT12 and FAT16 volumes root directory is stored in fixed region right after FATs instead of cluster chain.
+	 * First sector of that region, relative to the start of volume.
+	 */
+	protected firstRootDirSector: number;
+
+	protected rootDirSectors: number;
+
 	protected firstDataSector: number;
 
+	protected countOfClusters: number;
+
+	/**
+	 * BPB_FSInfo
+	 *
+	 * Sector number of FSINFO structure in the reserved area of the FAT32 volume. Usually 1.
+	 */
+	protected fsInfoSector: number;
+
+	/**
+	 * Cluster where search for free cluster starts, loaded from FSI_Nxt_Free. 0 when not known yet.
+	 */
+	protected nextFreeCluster: number = 0;
+
+	/**
+	 * Change of free cluster count not yet written to FSInfo sector.
+	 */
+	protected freeClustersDelta: number = 0;
+
+	/**
+	 * Modified FAT sectors, keyed by sector number relative to the start of FAT.
+	 * Dirty sectors are written to all FAT copies by flushFAT.
+	 */
+	protected fatSectors: Map<number, Buffer> = new Map();
+
+	protected dirtyFATSectors: Set<number> = new Set();
+
+	/**
+	 * Recently used FAT sectors, keyed by sector number relative to the start of FAT. Cleared by invalidateCache.
+	 */
+	protected fatCache: LruCache<number, Buffer> = new LruCache(256);
+
+	/**
+	 * Resolved cluster chains of recently read files and directories, keyed by their first cluster.
+	 */
+	protected extentCache: LruCache<number, IExtent[]> = new LruCache(64);
+
+	/**
+	 * Listeners registered to the device for subscribed callbacks, needed to unsubscribe them.
+	 */
+	protected changeListeners: Map<() => void, (notification: INewDataNotification) => void> = new Map();
+
 	protected fatStartLBA: number;
 
 	protected initialised: ResolvablePromise<void> = new ResolvablePromise();
 
 
 	constructor(
-		protected card: Card,
+		protected device: IBlockDevice,
 		protected partitionInfo: IPartitionInfo,
 	) {
 		this.readBIOSParameterBlock();
@@ -131,8 +259,6 @@ export class FAT32Adapter implements IFileSystemAdapter {
 	public async getDirectory(path: string): Promise<Directory> {
 		await this.initialised;
 
-		path = path.toUpperCase();
-
 		// remove / from end
 		if(path.endsWith('/')) {
 			path = path.slice(0, -1);
@@ -140,20 +266,14 @@ export class FAT32Adapter implements IFileSystemAdapter {
 		const parent = path.split('/').slice(0, -1).join('/');
 		const dirName = path.split('/').pop() || '';
 
-		const parentDir = await this.listFolder(parent);
 		if(parent === "" && dirName === "") {
-			return new Directory(this, "/", {
-				name: "",
-				size: 0,
-				isDirectory: true,
-				clusterNumber: this.rootCluster,
-				creationTime: new Date(),
-				modificationTime: new Date(),
-			});
+			return new Directory(this, "/", this.getRootDirectoryInfo());
 		}
-		const item = parentDir.find(file => file.name === dirName && file.isDirectory);
+
+		const parentDir = await this.listFolder(parent);
+		const item = parentDir.find(file => file.isDirectory && this.compareNames(file.name, dirName));
 		if(!item) {
-			throw new Error(`Directory ${dirName} not found in ${parent}`);
+			throw new DirectoryNotFoundError(path);
 		}
 
 		return new Directory(this, path, item);
@@ -164,50 +284,121 @@ export class FAT32Adapter implements IFileSystemAdapter {
 	 * Read content of whole file from the card.
 	 */
 	public async getFileContent(file: IFileInfo): Promise<Buffer> {
+		return this.readRange(file, 0, file.size);
+	}
+
+
+	/**
+	 * Read part of the file. Cluster chain is resolved into extents of consecutive clusters, so sectors are read
+	 * in maximal batches, even across cluster boundaries.
+	 */
+	public async readRange(file: IFileInfo, offset: number, length: number): Promise<Buffer> {
 		await this.initialised;
 
-		const clusterSize = this.sectorSize * this.sectorsPerCluster;
-		let remaining = file.size;
-		let cluster = file.clusterNumber;
+		const end = Math.min(file.size, offset + length);
+		if(offset >= end) {
+			return Buffer.alloc(0);
+		}
+
+		// Sector indexes relative to the start of the file
+		const firstSector = Math.floor(offset / this.sectorSize);
+		const lastSector = Math.floor((end - 1) / this.sectorSize);
+
+		const extents = await this.resolveExtents(file.clusterNumber);
 		const buffers: Buffer[] = [];
+		let extentStart = 0;
+		let sectorsRead = 0;
+		for(const extent of extents) {
+			const extentEnd = extentStart + extent.length * this.sectorsPerCluster - 1;
+			const from = Math.max(firstSector, extentStart);
+			const to = Math.min(lastSector, extentEnd);
+
+			if(from <= to) {
+				buffers.push(await this.readSectors(
+					this.calculateFirstSectorOfCluster(extent.firstCluster) + (from - extentStart),
+					to - from + 1
+				));
+				sectorsRead += to - from + 1;
+			}
 
-		while(cluster >= 2 && cluster < 0x0FFFFFF8 && remaining > 0) {
-			const firstSector = this.calculateFirstSectorOfCluster(cluster);
+			if(extentEnd >= lastSector) {
+				break;
+			}
+			extentStart = extentEnd + 1;
+		}
 
-			// We can read up to 14 sectors at a time, so we need to read the data in chunks
-			const buffersCluster: Buffer[] = [];
-			let sectorsLeft = this.sectorsPerCluster;
-			let sectorOffset = 0;
-			while(sectorsLeft > 0) {
-				const batch = Math.min(sectorsLeft, 14);
-				const buf = await this.card.readBinaryData(
-					this.partitionInfo.startLBA + firstSector + sectorOffset,
-					batch
-				);
-				buffersCluster.push(buf);
-				sectorsLeft -= batch;
-				sectorOffset += batch;
+		if(sectorsRead < lastSector - firstSector + 1) {
+			throw new FileSystemCorruptedError(`Cluster chain of ${file.name} ends before the end of file`);
+		}
+
+		const data = Buffer.concat(buffers);
+		const skip = offset - firstSector * this.sectorSize;
+
+		return data.subarray(skip, skip + end - offset);
+	}
+
+
+	/**
+	 * Drops cached FAT sectors and resolved cluster chains, so the next read sees changes made by the camera.
+	 */
+	public invalidateCache(): void {
+		this.fatCache.clear();
+		this.extentCache.clear();
+	}
+
+
+	/**
+	 * Calls the callback when card reports new data written to this partition. Cache is invalidated before
+	 * the callback is called.
+	 */
+	public subscribeForChanges(callback: () => void): void {
+		const listener = (notification: INewDataNotification): void => {
+			const partitionEnd = this.partitionInfo.startLBA + this.partitionInfo.length;
+			const reportsRange = notification.count > 0;
+			if(reportsRange && (notification.LBA_start >= partitionEnd || notification.LBA_start + notification.count <= this.partitionInfo.startLBA)) {
+				return;
 			}
 
-			const buffer = Buffer.concat(buffersCluster);
+			this.invalidateCache();
+			callback();
+		};
 
-			const toCopy = Math.min(remaining, clusterSize);
-			buffers.push(buffer.slice(0, toCopy));
-			remaining -= toCopy;
+		this.changeListeners.set(callback, listener);
+		this.device.subscribeForNewData?.(listener);
+	}
 
-			// Read the next cluster number from the FAT
-			const fatOffset = cluster * 4;
-			const fatSector = Math.floor(fatOffset / this.sectorSize);
-			const sectorOffsetFAT = fatOffset % this.sectorSize;
 
-			const fatBuffer = await this.card.readBinaryData(
-				this.fatStartLBA + fatSector,
-				1
-			);
-			cluster = fatBuffer.readUInt32LE(sectorOffsetFAT) & 0x0FFFFFFF;
+	public unsubscribeForChanges(callback: () => void): void {
+		const listener = this.changeListeners.get(callback);
+		if(listener) {
+			this.device.unsubscribeForNewData?.(listener);
+			this.changeListeners.delete(callback);
 		}
+	}
+
 
-		return Buffer.concat(buffers);
+	/**
+	 * Walks whole FAT, so it reads all FAT sectors once.
+	 */
+	public async getFreeRanges(): Promise<IBlockRange[]> {
+		await this.initialised;
+
+		const ranges: IBlockRange[] = [];
+		for(let cluster = 2; cluster < this.countOfClusters + 2; cluster++) {
+			if(await this.readFATEntry(cluster) !== 0) {
+				continue;
+			}
+
+			const LBA_start = this.partitionInfo.startLBA + this.calculateFirstSectorOfCluster(cluster);
+			const last = ranges[ranges.length - 1];
+			if(last && last.LBA_start + last.count === LBA_start) {
+				last.count += this.sectorsPerCluster;
+			} else {
+				ranges.push({LBA_start, count: this.sectorsPerCluster});
+			}
+		}
+
+		return ranges;
 	}
 
 
@@ -221,30 +412,220 @@ export class FAT32Adapter implements IFileSystemAdapter {
 			return this.listCluster(path.clusterNumber);
 		}
 
-		path = path.toUpperCase();
+		const directory = await this.resolveDirectory(path);
 
-		const paths = path.split('/');
-		let files = await this.listRoot();
-		while(paths.length > 0) {
-			const folderName = paths.shift();
-			if(!folderName) {
-				continue;
-			}
+		return this.listCluster(directory.clusterNumber);
+	}
 
-			const folder = files.find(file => file.name === folderName && file.isDirectory);
-			if(!folder) {
-				throw new Error(`Folder ${folderName} not found`);
+
+	/**
+	 * Writes content to the file, existing file is overwritten. Data and the new chain are written first, then the
+	 * directory entry is pointed to it and only after that the old chain is released, so failed write never
+	 * destroys the previous content.
+	 *
+	 * @throws {DirectoryNotFoundError} When parent directory does not exist.
+	 * @throws {FileAlreadyExistsError} When directory with the same name exists.
+	 * @throws {InvalidArgumentError} When the name is not valid on FAT.
+	 * @throws {NotEnoughSpaceError} When there is not enough free clusters or space in fixed root directory.
+	 */
+	public async writeFile(path: string, content: Buffer): Promise<IFileInfo> {
+		await this.initialised;
+
+		const {parentPath, name} = this.splitPath(path);
+		this.validateLongName(name);
+
+		const parent = await this.resolveDirectory(parentPath);
+		const directory = await this.readDirectory(parent.clusterNumber);
+		const existing = this.parseDirectory(directory)
+			.find((record) => this.compareNames(record.info.name, name));
+
+		if(existing?.info.isDirectory) {
+			throw new FileAlreadyExistsError(path);
+		}
+
+		const clusterSize = this.sectorSize * this.sectorsPerCluster;
+		const clusters = await this.allocateClusters(Math.ceil(content.length / clusterSize));
+
+		const now = this.roundToFatDateTime(new Date());
+		const info: IFileInfo = {
+			name: name,
+			size: content.length,
+			isDirectory: false,
+			clusterNumber: clusters[0] ?? 0,
+			creationTime: existing?.info.creationTime ?? now,
+			modificationTime: now,
+		};
+
+		try {
+			await this.writeClusters(clusters, content);
+			await this.flushFAT();
+
+			if(existing) {
+				const entry = Buffer.from(directory.buffer.subarray(existing.offset, existing.offset + ENTRY_SIZE));
+				this.updateShortEntry(entry, info);
+				await this.writeDirectoryEntries(directory, existing.offset, entry);
+			} else {
+				await this.createDirectoryEntry(directory, info, ATTR_ARCHIVE);
 			}
+		} catch(err) {
+			await this.releaseUnusedChain(info.clusterNumber);
+			throw err;
+		}
+
+		if(existing) {
+			await this.freeClusterChain(existing.info.clusterNumber);
+			await this.flushFAT();
+		}
+
+		return info;
+	}
+
+
+	/**
+	 * Marks all directory entries of the file (including long name entries) as deleted and frees its clusters
+	 * in all FAT copies.
+	 *
+	 * @throws {FileNotFoundError}
+	 */
+	public async deleteFile(path: string): Promise<void> {
+		await this.initialised;
+
+		const {directory, record} = await this.findRecord(path);
+		if(!record || record.info.isDirectory) {
+			throw new FileNotFoundError(path);
+		}
+
+		await this.markRecordDeleted(directory, record);
+		await this.freeClusterChain(record.info.clusterNumber);
+		await this.flushFAT();
+	}
+
+
+	/**
+	 * New entries are created before the old ones are deleted, so the file is never lost.
+	 *
+	 * @throws {FileNotFoundError} When the source does not exist.
+	 * @throws {FileAlreadyExistsError} When other file or directory with the new name exists.
+	 */
+	public async rename(path: string, newName: string): Promise<IFileInfo> {
+		await this.initialised;
+		this.validateLongName(newName);
+
+		const {directory, record} = await this.findRecord(path);
+		if(!record) {
+			throw new FileNotFoundError(path);
+		}
+
+		const conflict = this.parseDirectory(directory)
+			.find((other) => other.offset !== record.offset && this.compareNames(other.info.name, newName));
+		if(conflict) {
+			throw new FileAlreadyExistsError(newName);
+		}
+
+		const info: IFileInfo = {
+			...record.info,
+			name: newName,
+		};
+		const attributes = directory.buffer[record.offset + 11];
+
+		await this.createDirectoryEntry(directory, info, attributes);
+		await this.markRecordDeleted(directory, record);
+
+		return info;
+	}
+
+
+	/**
+	 * Creates directory with one cluster containing "." and ".." entries.
+	 *
+	 * @throws {FileAlreadyExistsError}
+	 */
+	public async createDirectory(path: string): Promise<IFileInfo> {
+		await this.initialised;
+
+		const {parentPath, name} = this.splitPath(path);
+		this.validateLongName(name);
+
+		const parent = await this.resolveDirectory(parentPath);
+		const directory = await this.readDirectory(parent.clusterNumber);
+		if(this.parseDirectory(directory).some((record) => this.compareNames(record.info.name, name))) {
+			throw new FileAlreadyExistsError(path);
+		}
+
+		const now = this.roundToFatDateTime(new Date());
+		const [cluster] = await this.allocateClusters(1);
+		const info: IFileInfo = {
+			name,
+			size: 0,
+			isDirectory: true,
+			clusterNumber: cluster,
+			creationTime: now,
+			modificationTime: now,
+		};
+
+		// ".." of directory in root points to cluster 0, even on FAT32 where root has a real cluster
+		const parentCluster = parent.clusterNumber === this.rootCluster ? FIXED_ROOT_CLUSTER : parent.clusterNumber;
+
+		const content = Buffer.alloc(this.sectorSize * this.sectorsPerCluster);
+		const dotEntry = content.subarray(0, ENTRY_SIZE);
+		dotEntry.write(".".padEnd(11, ' '), 0, 'latin1');
+		dotEntry[11] = ATTR_DIRECTORY;
+		this.updateShortEntry(dotEntry, info);
+
+		const dotDotEntry = content.subarray(ENTRY_SIZE, ENTRY_SIZE * 2);
+		dotDotEntry.write("..".padEnd(11, ' '), 0, 'latin1');
+		dotDotEntry[11] = ATTR_DIRECTORY;
+		this.updateShortEntry(dotDotEntry, {...info, clusterNumber: parentCluster});
+
+		try {
+			await this.writeClusters([cluster], content);
+			await this.flushFAT();
+			await this.createDirectoryEntry(directory, info, ATTR_DIRECTORY);
+		} catch(err) {
+			await this.releaseUnusedChain(cluster);
+			throw err;
+		}
+
+		return info;
+	}
+
+
+	/**
+	 * @throws {DirectoryNotFoundError}
+	 * @throws {DirectoryNotEmptyError} When the directory is not empty and recursive is false.
+	 */
+	public async removeDirectory(path: string, recursive: boolean = false): Promise<void> {
+		await this.initialised;
+
+		const {directory, record} = await this.findRecord(path);
+		if(!record || !record.info.isDirectory) {
+			throw new DirectoryNotFoundError(path);
+		}
+
+		const children = (await this.listCluster(record.info.clusterNumber))
+			.filter((child) => child.name !== '.' && child.name !== '..');
+
+		if(children.length > 0 && !recursive) {
+			throw new DirectoryNotEmptyError(path);
+		}
 
-			files = await this.listCluster(folder.clusterNumber);
+		for(const child of children) {
+			const childPath = `${path}/${child.name}`;
+			if(child.isDirectory) {
+				await this.removeDirectory(childPath, true);
+			} else {
+				await this.deleteFile(childPath);
+			}
 		}
 
-		return files;
+		await this.markRecordDeleted(directory, record);
+		await this.freeClusterChain(record.info.clusterNumber);
+		await this.flushFAT();
 	}
 
 
 	/**
-	 * Compare two names by rules of FAT32 file system.
+	 * Compare two names by rules of FAT file system.
 	 */
 	public compareNames(name1: string, name2: string): boolean {
 		return name1.toUpperCase() === name2.toUpperCase();
@@ -252,34 +633,33 @@ export class FAT32Adapter implements IFileSystemAdapter {
 
 
 	protected async readBIOSParameterBlock(): Promise<void> {
-		const parameters = await this.card.readBinaryData(this.partitionInfo.startLBA, 1);
+		const parameters = await this.device.readBlocks(this.partitionInfo.startLBA, 1);
 
 		this.sectorSize = parameters.readUInt16LE(11);
 		this.sectorsPerCluster = parameters.readUInt8(13);
 		this.reservedSectors = parameters.readUInt16LE(14);
 		this.numberOfFATs = parameters.readUInt8(16);
-		this.rootEntCnt = parameters.readUInt16LE(17); // Not used in FAT32, but read for compatibility
-		this.fatSize = parameters.readUInt32LE(32);
-		this.oneFatSize = parameters.readUInt32LE(36);
-		this.rootCluster = parameters.readUInt32LE(44);
-		this.fatStartLBA = this.partitionInfo.startLBA + this.reservedSectors;
+		this.rootEntCnt = parameters.readUInt16LE(17); // Always 0 for FAT32
 
-		if(this.rootEntCnt !== 0) {
-			console.warn("RootEntCnt is not 0, this is not a FAT32 volume. This adapter is designed for FAT32 volumes only.");
-		}
+		// 16-bit fields (BPB_TotSec16 and BPB_FATSz16) are used by FAT12/16, when they are 0, 32-bit variant is used
+		this.fatSize = parameters.readUInt16LE(19) || parameters.readUInt32LE(32);
+		this.oneFatSize = parameters.readUInt16LE(22) || parameters.readUInt32LE(36);
+		this.fatStartLBA = this.partitionInfo.startLBA + this.reservedSectors;
 
-		console.log("FAT32 BIOS Parameter Block:");
+		console.log("FAT BIOS Parameter Block:");
 		console.log(` * Sector Size: ${this.sectorSize} bytes`);
 		console.log(` * Sectors per Cluster: ${this.sectorsPerCluster}`);
 		console.log(` * Reserved Sectors: ${this.reservedSectors}`);
 		console.log(` * Number of FATs: ${this.numberOfFATs}`);
-		console.log(` * FAT Size: ${this.fatSize} sectors`);
-		console.log(` * Root Cluster: ${this.rootCluster}`);
+		console.log(` * Total Sectors: ${this.fatSize}`);
+		console.log(` * Sectors per FAT: ${this.oneFatSize}`);
 
 		// RootDirSectors = ((BPB_RootEntCnt * 32) + (BPB_BytsPerSec – 1)) / BPB_BytsPerSec;
 		// const rootDirSectors = Math.floor(((this.rootEntCnt * 32) + (this.sectorSize - 1)) / this.sectorSize);
 		// Optimize the calculation to avoid floating point division which does rounding
 		const rootDirSectors = Math.ceil((this.rootEntCnt * 32) / this.sectorSize);
+		this.rootDirSectors = rootDirSectors;
+		this.firstRootDirSector = this.reservedSectors + (this.numberOfFATs * this.oneFatSize);
 
 		// FirstDataSector = BPB_ResvdSecCnt + (BPB_NumFATs * FATSz) + RootDirSectors;
 		const firstDataSector = this.reservedSectors + (this.numberOfFATs * this.oneFatSize) + rootDirSectors;
@@ -288,20 +668,27 @@ export class FAT32Adapter implements IFileSystemAdapter {
 
 		const dataSector = this.fatSize - firstDataSector;
 		const countOfClusters = Math.floor(dataSector / this.sectorsPerCluster);
+		this.countOfClusters = countOfClusters;
 
-		let fatType;
 		if(countOfClusters < 4085) {
-			fatType = 'fat12';
+			this.fatType = EFileSystems.FAT12;
 		} else if(countOfClusters < 65525) {
-			fatType = 'fat16';
+			this.fatType = EFileSystems.FAT16;
 		} else {
-			fatType = 'fat32';
+			this.fatType = EFileSystems.FAT32;
 		}
 
+		// BPB_RootClus exists only in FAT32 extended boot record
+		this.rootCluster = this.fatType === EFileSystems.FAT32
+			? parameters.readUInt32LE(44)
+			: FIXED_ROOT_CLUSTER;
+		this.fsInfoSector = this.fatType === EFileSystems.FAT32 ? parameters.readUInt16LE(48) : 0;
+
 		console.log(" * Root directory sectors:", rootDirSectors);
+		console.log(" * Root cluster:", this.rootCluster);
 		console.log(" * First data sector:", firstDataSector);
 		console.log(" * Total clusters:", countOfClusters);
-		console.log(" * FAT type:", fatType);
+		console.log(" * FAT type:", this.fatType);
 
 
 		this.initialised.resolve();
@@ -318,6 +705,92 @@ export class FAT32Adapter implements IFileSystemAdapter {
 	}
 
 
+	/**
+	 * Reads sectors relative to the start of the volume. Card pipelines the request, so large sequential reads
+	 * should be done with one call rather than per cluster.
+	 */
+	protected async readSectors(firstSector: number, count: number): Promise<Buffer> {
+		return this.device.readBlocks(this.partitionInfo.startLBA + firstSector, count);
+	}
+
+
+	/**
+	 * Walks the whole cluster chain and merges consecutive clusters into extents.
+	 */
+	protected async resolveExtents(firstCluster: number): Promise<IExtent[]> {
+		const cached = this.extentCache.get(firstCluster);
+		if(cached) {
+			return cached;
+		}
+
+		const extents: IExtent[] = [];
+		let cluster = firstCluster;
+		// Chain can not be longer than count of clusters, unless the FAT is corrupted and contains a loop
+		for(let count = 0; cluster >= 2 && !this.isEndOfChain(cluster) && count <= this.countOfClusters; count++) {
+			const last = extents[extents.length - 1];
+			if(last && last.firstCluster + last.length === cluster) {
+				last.length++;
+			} else {
+				extents.push({firstCluster: cluster, length: 1});
+			}
+
+			cluster = await this.readFATEntry(cluster);
+		}
+
+		if(cluster >= 2 && !this.isEndOfChain(cluster)) {
+			throw new FileSystemCorruptedError(`Cluster chain starting at ${firstCluster} contains a loop`);
+		}
+
+		this.extentCache.set(firstCluster, extents);
+
+		return extents;
+	}
+
+
+	/**
+	 * Reads value of FAT entry for the cluster, which is the number of next cluster in the chain.
+	 * Entry is 12, 16 or 32 bits (only lower 28 bits are used) long depending on FAT type.
+	 * Includes modifications not yet flushed to the card.
+	 */
+	protected async readFATEntry(cluster: number): Promise<number> {
+		const offset = this.getFATEntryOffset(cluster);
+		const length = this.fatType === EFileSystems.FAT32 ? 4 : 2;
+
+		// FAT12 entry can span over two sectors, so read byte by byte
+		let value = 0;
+		for(let i = 0; i < length; i++) {
+			const sector = await this.loadFATSector(Math.floor((offset + i) / this.sectorSize));
+			value |= sector[(offset + i) % this.sectorSize] << (i * 8);
+		}
+		value >>>= 0;
+
+		switch(this.fatType) {
+			case EFileSystems.FAT12:
+				return cluster & 1 ? value >> 4 : value & 0x0FFF;
+			case EFileSystems.FAT16:
+				return value;
+			default:
+				return value & 0x0FFFFFFF;
+		}
+	}
+
+
+	/**
+	 * Values greater or equal to this are end of cluster chain markers (0xFF7, 0xFFF7 and 0x0FFFFFF7 are bad clusters,
+	 * which should never be part of the chain either).
+	 */
+	protected isEndOfChain(cluster: number): boolean {
+		switch(this.fatType) {
+			case EFileSystems.FAT12:
+				return cluster >= 0x0FF7;
+			case EFileSystems.FAT16:
+				return cluster >= 0xFFF7;
+			default:
+				return cluster >= 0x0FFFFFF7;
+		}
+	}
+
+
 	protected async listRoot(): Promise<IFileInfo[]> {
 		await this.initialised;
 
@@ -326,29 +799,60 @@ export class FAT32Adapter implements IFileSystemAdapter {
 
 
 	protected async listCluster(clusterNumber: number): Promise<IFileInfo[]> {
-		const firstSector = this.calculateFirstSectorOfCluster(clusterNumber);
+		const directory = await this.readDirectory(clusterNumber);
+
+		return this.parseDirectory(directory).map((record) => record.info);
+	}
+
 
-		const sectorsToRead = this.sectorsPerCluster;
+	/**
+	 * Reads whole directory - either fixed root directory region of FAT12/16 or cluster chain.
+	 */
+	protected async readDirectory(clusterNumber: number): Promise<IDirectoryData> {
+		// ".." entry of directory in root has cluster 0 on all FAT types
+		if(clusterNumber === FIXED_ROOT_CLUSTER && this.fatType === EFileSystems.FAT32) {
+			clusterNumber = this.rootCluster;
+		}
+
+		if(clusterNumber === FIXED_ROOT_CLUSTER) {
+			return {
+				buffer: await this.readSectors(this.firstRootDirSector, this.rootDirSectors),
+				sectors: Array.from({length: this.rootDirSectors}, (_, i) => this.firstRootDirSector + i),
+				clusters: [],
+			};
+		}
 
 		const buffers: Buffer[] = [];
-		let sectorsLeft = sectorsToRead;
-		let sectorOffset = 0;
-		while (sectorsLeft > 0) {
-			const batch = Math.min(sectorsLeft, 14);
-			const buf = await this.card.readBinaryData(
-				this.partitionInfo.startLBA + firstSector + sectorOffset,
-				batch
-			);
-			buffers.push(buf);
-			sectorsLeft -= batch;
-			sectorOffset += batch;
+		const sectors: number[] = [];
+		const clusters: number[] = [];
+		let cluster = clusterNumber;
+		while(cluster >= 2 && !this.isEndOfChain(cluster)) {
+			const firstSector = this.calculateFirstSectorOfCluster(cluster);
+			buffers.push(await this.readSectors(firstSector, this.sectorsPerCluster));
+			for(let i = 0; i < this.sectorsPerCluster; i++) {
+				sectors.push(firstSector + i);
+			}
+			clusters.push(cluster);
+
+			cluster = await this.readFATEntry(cluster);
 		}
-		const buffer = Buffer.concat(buffers);
 
-		const entries: IFileInfo[] = [];
+		return {
+			buffer: Buffer.concat(buffers),
+			sectors,
+			clusters,
+		};
+	}
+
+
+	protected parseDirectory(directory: IDirectoryData): IDirectoryRecord[] {
+		const buffer = directory.buffer;
+
+		const entries: IDirectoryRecord[] = [];
 		let longFileName = '';
+		let longNameEntries = 0;
 		for(let offset = 0; offset + 32 <= buffer.length; offset += 32) {
-			const entry = buffer.slice(offset, offset + 32);
+			const entry = Buffer.from(buffer.subarray(offset, offset + 32));
 
 			// If DIR_Name[0] == 0x00, then the directory entry is free (same as for 0xE5), and there are no
 			// allocated directory entries after this one (all of the DIR_Name[0] bytes in all of the entries after
@@ -362,6 +866,8 @@ export class FAT32Adapter implements IFileSystemAdapter {
 			// If DIR_Name[0] == 0xE5, then the directory entry is free (there is no file or directory name in this
 			// entry).
 			if(entry[0] === 0xE5) {
+				longFileName = '';
+				longNameEntries = 0;
 				continue;
 			}
 
@@ -375,10 +881,18 @@ export class FAT32Adapter implements IFileSystemAdapter {
 					const name3 = lfnEntry.slice(28, 32);
 					const namePart = Buffer.concat([name1, name2, name3]).toString('utf16le');
 					longFileName = namePart.split('\0')[0] + longFileName;
+					longNameEntries++;
 				}
 				continue;
 			}
 
+			// Volume label is not a file
+			if(entry[11] & ATTR_VOLUME_ID) {
+				longFileName = '';
+				longNameEntries = 0;
+				continue;
+			}
+
 			// If DIR_Name[0] == 0x05, then the actual file name character for this byte is 0xE5. 0xE5 is
 			// actually a valid KANJI lead byte value for the character set used in Japan. The special 0x05 value
 			// is used so that this special file name case for Japan can be handled properly and not cause FAT file
@@ -405,13 +919,18 @@ export class FAT32Adapter implements IFileSystemAdapter {
 			const modificationDateWord = entry.readUInt16LE(24);
 
 			entries.push({
-				name: name,
-				size: entry.readUInt32LE(28),
-				isDirectory: (entry[11] & 0x10) !== 0,
-				clusterNumber: (entry.readUInt16LE(20) << 16) | entry.readUInt16LE(26), // Cluster number
-				creationTime: this.parseFatDateTime(creationDateWord, creationTimeWord),
-				modificationTime: this.parseFatDateTime(modificationDateWord, modificationTimeWord),
+				info: {
+					name: name,
+					size: entry.readUInt32LE(28),
+					isDirectory: (entry[11] & ATTR_DIRECTORY) !== 0,
+					clusterNumber: (entry.readUInt16LE(20) << 16) | entry.readUInt16LE(26), // Cluster number
+					creationTime: this.parseFatDateTime(creationDateWord, creationTimeWord),
+					modificationTime: this.parseFatDateTime(modificationDateWord, modificationTimeWord),
+				},
+				offset,
+				longNameEntries,
 			});
+			longNameEntries = 0;
 		}
 
 		return entries;
@@ -447,4 +966,624 @@ export class FAT32Adapter implements IFileSystemAdapter {
 		// JavaScript's Date month is 0-indexed (0-11)
 		return new Date(year, month - 1, day, hour, minute, second);
 	}
+
+
+	/**
+	 * Inverse of parseFatDateTime, dates before 1980 are clamped to 1980-01-01.
+	 */
+	protected encodeFatDateTime(value: Date): {date: number, time: number, tenths: number} {
+		if(value.getFullYear() < 1980) {
+			value = new Date(1980, 0, 1);
+		}
+
+		return {
+			date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+			time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+			// DIR_CrtTimeTenth - count of tenths of a second, range 0-199, for the odd second and milliseconds
+			tenths: (value.getSeconds() % 2) * 100 + Math.floor(value.getMilliseconds() / 10),
+		};
+	}
+
+
+	/**
+	 * Time as stored in directory entry and reported by listFolder, with 2 seconds resolution.
+	 */
+	protected roundToFatDateTime(value: Date): Date {
+		const {date, time} = this.encodeFatDateTime(value);
+		return this.parseFatDateTime(date, time);
+	}
+
+
+	protected getRootDirectoryInfo(): IFileInfo {
+		return {
+			name: "",
+			size: 0,
+			isDirectory: true,
+			clusterNumber: this.rootCluster,
+			creationTime: new Date(),
+			modificationTime: new Date(),
+		};
+	}
+
+
+	protected splitPath(path: string): {parentPath: string, name: string} {
+		const parts = path.split('/').filter((part) => part.length > 0);
+		const name = parts.pop();
+		if(!name) {
+			throw new InvalidArgumentError(`Invalid path "${path}"`);
+		}
+
+		return {
+			parentPath: parts.join('/'),
+			name,
+		};
+	}
+
+
+	/**
+	 * Long names can contain any character except control characters and \ / : * ? " < > |
+	 */
+	protected validateLongName(name: string): void {
+		if(name.length > 255 || name === '.' || name === '..' || /[\x00-\x1F\\/:*?"<>|]/.test(name)) {
+			throw new InvalidArgumentError(`Invalid file name "${name}"`);
+		}
+	}
+
+
+	/**
+	 * Finds directory by path, names are compared case-insensitive.
+	 *
+	 * @throws {DirectoryNotFoundError}
+	 */
+	protected async resolveDirectory(path: string): Promise<IFileInfo> {
+		let directory = this.getRootDirectoryInfo();
+
+		for(const part of path.split('/').filter((part) => part.length > 0)) {
+			const entries = await this.listCluster(directory.clusterNumber);
+			const found = entries.find((entry) => entry.isDirectory && this.compareNames(entry.name, part));
+			if(!found) {
+				throw new DirectoryNotFoundError(path);
+			}
+			directory = found;
+		}
+
+		return directory;
+	}
+
+
+	/**
+	 * Finds directory entry by its path.
+	 *
+	 * @returns Parent directory and the record, record is undefined when the entry does not exist.
+	 *
+	 * @throws {DirectoryNotFoundError} When parent directory does not exist.
+	 */
+	protected async findRecord(path: string): Promise<{directory: IDirectoryData, record: IDirectoryRecord | undefined}> {
+		const {parentPath, name} = this.splitPath(path);
+		const parent = await this.resolveDirectory(parentPath);
+		const directory = await this.readDirectory(parent.clusterNumber);
+		const record = this.parseDirectory(directory)
+			.find((record) => record.info.name !== '.' && record.info.name !== '..' && this.compareNames(record.info.name, name));
+
+		return {directory, record};
+	}
+
+
+	/**
+	 * Marks short entry and all its long name entries as deleted (0xE5).
+	 */
+	protected async markRecordDeleted(directory: IDirectoryData, record: IDirectoryRecord): Promise<void> {
+		const firstOffset = record.offset - record.longNameEntries * ENTRY_SIZE;
+		const entries = Buffer.from(directory.buffer.subarray(firstOffset, record.offset + ENTRY_SIZE));
+		for(let offset = 0; offset < entries.length; offset += ENTRY_SIZE) {
+			entries[offset] = 0xE5;
+		}
+
+		await this.writeDirectoryEntries(directory, firstOffset, entries);
+	}
+
+
+	/**
+	 * Returns FAT sector, either modified one waiting for flushFAT or from cache. On cache miss up to 13 following
+	 * sectors are read as well, because chains are mostly sequential.
+	 */
+	protected async loadFATSector(sector: number): Promise<Buffer> {
+		const modified = this.fatSectors.get(sector);
+		if(modified) {
+			return modified;
+		}
+
+		const cached = this.fatCache.get(sector);
+		if(cached) {
+			return cached;
+		}
+
+		const count = Math.min(14, this.oneFatSize - sector);
+		const buffer = await this.device.readBlocks(this.fatStartLBA + sector, count);
+		for(let i = 0; i < count; i++) {
+			if(!this.fatCache.has(sector + i)) {
+				this.fatCache.set(sector + i, Buffer.from(buffer.subarray(i * this.sectorSize, (i + 1) * this.sectorSize)));
+			}
+		}
+
+		return buffer.subarray(0, this.sectorSize);
+	}
+
+
+	/**
+	 * Byte offset of FAT entry for the cluster from the start of FAT.
+	 */
+	protected getFATEntryOffset(cluster: number): number {
+		switch(this.fatType) {
+			case EFileSystems.FAT12:
+				return cluster + Math.floor(cluster / 2);
+			case EFileSystems.FAT16:
+				return cluster * 2;
+			default:
+				return cluster * 4;
+		}
+	}
+
+
+	/**
+	 * Modifies FAT entry in memory, changes are written to the card by flushFAT.
+	 */
+	protected async setFATEntry(cluster: number, value: number): Promise<void> {
+		const offset = this.getFATEntryOffset(cluster);
+		const length = this.fatType === EFileSystems.FAT32 ? 4 : 2;
+
+		let current = 0;
+		for(let i = 0; i < length; i++) {
+			const sector = await this.loadFATSector(Math.floor((offset + i) / this.sectorSize));
+			current |= sector[(offset + i) % this.sectorSize] << (i * 8);
+		}
+		current >>>= 0;
+
+		let updated: number;
+		switch(this.fatType) {
+			case EFileSystems.FAT12:
+				// Two 12-bit entries share the middle byte
+				updated = cluster & 1
+					? (current & 0x000F) | ((value & 0x0FFF) << 4)
+					: (current & 0xF000) | (value & 0x0FFF);
+				break;
+			case EFileSystems.FAT16:
+				updated = value & 0xFFFF;
+				break;
+			default:
+				// High 4 bits of FAT32 entry are reserved and must be preserved
+				updated = ((current & 0xF0000000) | (value & 0x0FFFFFFF)) >>> 0;
+		}
+
+		for(let i = 0; i < length; i++) {
+			const sectorNumber = Math.floor((offset + i) / this.sectorSize);
+			if(!this.fatSectors.has(sectorNumber)) {
+				// Cached sector must stay untouched until the change is written to the card
+				this.fatSectors.set(sectorNumber, Buffer.from(await this.loadFATSector(sectorNumber)));
+			}
+			this.fatSectors.get(sectorNumber)![(offset + i) % this.sectorSize] = (updated >>> (i * 8)) & 0xFF;
+			this.dirtyFATSectors.add(sectorNumber);
+		}
+	}
+
+
+	protected getEndOfChainMarker(): number {
+		switch(this.fatType) {
+			case EFileSystems.FAT12:
+				return 0x0FFF;
+			case EFileSystems.FAT16:
+				return 0xFFFF;
+			default:
+				return 0x0FFFFFFF;
+		}
+	}
+
+
+	/**
+	 * Finds free clusters and links them into a chain. Search starts at FSI_Nxt_Free hint and wraps around.
+	 *
+	 * @returns Allocated clusters in the order of the chain, empty array when count is 0.
+	 *
+	 * @throws {NotEnoughSpaceError}
+	 */
+	protected async allocateClusters(count: number): Promise<number[]> {
+		if(count === 0) {
+			return [];
+		}
+
+		if(this.nextFreeCluster === 0) {
+			this.nextFreeCluster = await this.readNextFreeHint();
+		}
+
+		const maxCluster = this.countOfClusters + 1;
+		const clusters: number[] = [];
+		let cluster = this.nextFreeCluster;
+		for(let scanned = 0; clusters.length < count && scanned < this.countOfClusters; scanned++) {
+			if(cluster < 2 || cluster > maxCluster) {
+				cluster = 2;
+			}
+			if(await this.readFATEntry(cluster) === 0) {
+				clusters.push(cluster);
+			}
+			cluster++;
+		}
+
+		if(clusters.length < count) {
+			this.fatSectors.clear();
+			this.dirtyFATSectors.clear();
+			throw new NotEnoughSpaceError(count * this.sectorSize * this.sectorsPerCluster);
+		}
+
+		for(let i = 0; i < clusters.length; i++) {
+			await this.setFATEntry(clusters[i], clusters[i + 1] ?? this.getEndOfChainMarker());
+		}
+
+		this.nextFreeCluster = cluster > maxCluster ? 2 : cluster;
+		this.freeClustersDelta -= count;
+
+		return clusters;
+	}
+
+
+	/**
+	 * Marks all clusters of the chain as free.
+	 *
+	 * @returns Count of released clusters.
+	 */
+	protected async freeClusterChain(firstCluster: number): Promise<number> {
+		let freed = 0;
+		let cluster = firstCluster;
+		while(cluster >= 2 && !this.isEndOfChain(cluster) && freed <= this.countOfClusters) {
+			const next = await this.readFATEntry(cluster);
+			await this.setFATEntry(cluster, 0);
+			freed++;
+			cluster = next;
+		}
+
+		this.freeClustersDelta += freed;
+		return freed;
+	}
+
+
+	/**
+	 * Frees chain which no directory entry points to after failed write. Failure of the cleanup is only logged,
+	 * so the caller gets the original error.
+	 */
+	protected async releaseUnusedChain(firstCluster: number): Promise<void> {
+		try {
+			await this.freeClusterChain(firstCluster);
+			await this.flushFAT();
+		} catch(err) {
+			console.warn(`Cannot release clusters of failed write starting at ${firstCluster}: ${err}`);
+		}
+	}
+
+
+	/**
+	 * Writes all modified FAT sectors to every FAT copy and updates FSInfo.
+	 */
+	protected async flushFAT(): Promise<void> {
+		const dirtySectors = [...this.dirtyFATSectors].sort((a, b) => a - b);
+		for(const sector of dirtySectors) {
+			const buffer = this.fatSectors.get(sector)!;
+			for(let fat = 0; fat < this.numberOfFATs; fat++) {
+				await this.device.writeBlocks(this.fatStartLBA + fat * this.oneFatSize + sector, buffer);
+			}
+		}
+
+		// Written sectors are now the current content of FAT
+		for(const [sector, buffer] of this.fatSectors) {
+			this.fatCache.set(sector, buffer);
+		}
+		this.dirtyFATSectors.clear();
+		this.fatSectors.clear();
+		this.extentCache.clear();
+
+		await this.updateFSInfo();
+	}
+
+
+	protected async readNextFreeHint(): Promise<number> {
+		if(this.fatType !== EFileSystems.FAT32) {
+			return 2;
+		}
+
+		const fsInfo = await this.device.readBlocks(this.partitionInfo.startLBA + this.fsInfoSector, 1);
+		if(!this.isValidFSInfo(fsInfo)) {
+			return 2;
+		}
+
+		const hint = fsInfo.readUInt32LE(492);
+		return hint >= 2 && hint <= this.countOfClusters + 1 ? hint : 2;
+	}
+
+
+	/**
+	 * FSInfo sector contains last known free cluster count (FSI_Free_Count) and hint where to start looking
+	 * for free cluster (FSI_Nxt_Free). Both are only hints, but should be kept up to date.
+	 */
+	protected async updateFSInfo(): Promise<void> {
+		if(this.fatType !== EFileSystems.FAT32) {
+			this.freeClustersDelta = 0;
+			return;
+		}
+
+		const lba = this.partitionInfo.startLBA + this.fsInfoSector;
+		const fsInfo = await this.device.readBlocks(lba, 1);
+		if(!this.isValidFSInfo(fsInfo)) {
+			console.warn("FSInfo sector has invalid signature, not updating it.");
+			this.freeClustersDelta = 0;
+			return;
+		}
+
+		const freeCount = fsInfo.readUInt32LE(488);
+		if(freeCount !== 0xFFFFFFFF) {
+			fsInfo.writeUInt32LE(Math.max(0, freeCount + this.freeClustersDelta), 488);
+		}
+		fsInfo.writeUInt32LE(this.nextFreeCluster || 0xFFFFFFFF, 492);
+
+		await this.device.writeBlocks(lba, fsInfo);
+		this.freeClustersDelta = 0;
+	}
+
+
+	protected isValidFSInfo(fsInfo: Buffer): boolean {
+		return fsInfo.readUInt32LE(0) === 0x41615252
+			&& fsInfo.readUInt32LE(484) === 0x61417272
+			&& fsInfo.readUInt32LE(508) === 0xAA550000;
+	}
+
+
+	/**
+	 * Writes content to the clusters, consecutive clusters are written in one request.
+	 */
+	protected async writeClusters(clusters: number[], content: Buffer): Promise<void> {
+		const clusterSize = this.sectorSize * this.sectorsPerCluster;
+
+		let i = 0;
+		while(i < clusters.length) {
+			let runLength = 1;
+			while(i + runLength < clusters.length && clusters[i + runLength] === clusters[i] + runLength) {
+				runLength++;
+			}
+
+			const data = Buffer.alloc(runLength * clusterSize);
+			content.copy(data, 0, i * clusterSize, (i + runLength) * clusterSize);
+
+			await this.device.writeBlocks(
+				this.partitionInfo.startLBA + this.calculateFirstSectorOfCluster(clusters[i]),
+				data
+			);
+			i += runLength;
+		}
+	}
+
+
+	/**
+	 * Writes modified entries back to the directory buffer and to the card.
+	 */
+	protected async writeDirectoryEntries(directory: IDirectoryData, offset: number, entries: Buffer): Promise<void> {
+		entries.copy(directory.buffer, offset);
+
+		const firstSector = Math.floor(offset / this.sectorSize);
+		const lastSector = Math.floor((offset + entries.length - 1) / this.sectorSize);
+		for(let i = firstSector; i <= lastSector; i++) {
+			await this.device.writeBlocks(
+				this.partitionInfo.startLBA + directory.sectors[i],
+				directory.buffer.subarray(i * this.sectorSize, (i + 1) * this.sectorSize)
+			);
+		}
+	}
+
+
+	/**
+	 * Appends one zeroed cluster to the directory cluster chain.
+	 *
+	 * @throws {NotEnoughSpaceError} When the directory is the fixed root directory of FAT12/16 or volume is full.
+	 */
+	protected async extendDirectory(directory: IDirectoryData): Promise<void> {
+		if(directory.clusters.length === 0) {
+			throw new NotEnoughSpaceError(ENTRY_SIZE);
+		}
+
+		const clusterSize = this.sectorSize * this.sectorsPerCluster;
+		const [cluster] = await this.allocateClusters(1);
+		await this.writeClusters([cluster], Buffer.alloc(clusterSize));
+		await this.setFATEntry(directory.clusters[directory.clusters.length - 1], cluster);
+		await this.flushFAT();
+
+		const firstSector = this.calculateFirstSectorOfCluster(cluster);
+		directory.buffer = Buffer.concat([directory.buffer, Buffer.alloc(clusterSize)]);
+		directory.clusters.push(cluster);
+		for(let i = 0; i < this.sectorsPerCluster; i++) {
+			directory.sectors.push(firstSector + i);
+		}
+	}
+
+
+	/**
+	 * Creates short entry, preceded by long name entries when the name is not valid 8.3 name, in the first
+	 * free space of the directory. Directory is extended when there is no space left.
+	 *
+	 * @returns Offset of the short entry in the directory buffer.
+	 */
+	protected async createDirectoryEntry(directory: IDirectoryData, info: IFileInfo, attributes: number): Promise<number> {
+		const existingShortNames = new Set<string>();
+		for(let offset = 0; offset + ENTRY_SIZE <= directory.buffer.length; offset += ENTRY_SIZE) {
+			const first = directory.buffer[offset];
+			if(first === 0x00) {
+				break;
+			}
+			if(first !== 0xE5 && directory.buffer[offset + 11] !== ATTR_LONG_NAME) {
+				existingShortNames.add(directory.buffer.toString('latin1', offset, offset + 11));
+			}
+		}
+
+		const {shortName, needsLongName} = this.generateShortName(info.name, existingShortNames);
+		const shortEntry = Buffer.alloc(ENTRY_SIZE);
+		shortName.copy(shortEntry, 0);
+		shortEntry[11] = attributes;
+		this.updateShortEntry(shortEntry, info);
+
+		const entries = needsLongName
+			? Buffer.concat([...this.buildLongNameEntries(info.name, shortName), shortEntry])
+			: shortEntry;
+		const slotsNeeded = entries.length / ENTRY_SIZE;
+
+		let offset = this.findFreeSlots(directory, slotsNeeded);
+		while(offset === null) {
+			await this.extendDirectory(directory);
+			offset = this.findFreeSlots(directory, slotsNeeded);
+		}
+
+		await this.writeDirectoryEntries(directory, offset, entries);
+
+		return offset + entries.length - ENTRY_SIZE;
+	}
+
+
+	/**
+	 * Finds consecutive free directory entries (deleted or after the end of directory marker).
+	 *
+	 * @returns Offset of the first free entry or null when there is not enough free entries.
+	 */
+	protected findFreeSlots(directory: IDirectoryData, count: number): number | null {
+		let runStart = 0;
+		let runLength = 0;
+		for(let offset = 0; offset + ENTRY_SIZE <= directory.buffer.length; offset += ENTRY_SIZE) {
+			const first = directory.buffer[offset];
+			if(first === 0x00) {
+				// All following entries are free as well
+				const available = (directory.buffer.length - offset) / ENTRY_SIZE + runLength;
+				return available >= count ? (runLength > 0 ? runStart : offset) : null;
+			}
+
+			if(first === 0xE5) {
+				if(runLength === 0) {
+					runStart = offset;
+				}
+				runLength++;
+				if(runLength >= count) {
+					return runStart;
+				}
+			} else {
+				runLength = 0;
+			}
+		}
+
+		return null;
+	}
+
+
+	/**
+	 * Sets cluster, size and timestamps of the short directory entry.
+	 */
+	protected updateShortEntry(entry: Buffer, info: IFileInfo): void {
+		const creation = this.encodeFatDateTime(info.creationTime);
+		const modification = this.encodeFatDateTime(info.modificationTime);
+
+		entry[13] = creation.tenths;
+		entry.writeUInt16LE(creation.time, 14);
+		entry.writeUInt16LE(creation.date, 16);
+		entry.writeUInt16LE(modification.date, 18); // Last access date
+		entry.writeUInt16LE((info.clusterNumber >>> 16) & 0xFFFF, 20);
+		entry.writeUInt16LE(modification.time, 22);
+		entry.writeUInt16LE(modification.date, 24);
+		entry.writeUInt16LE(info.clusterNumber & 0xFFFF, 26);
+		entry.writeUInt32LE(info.isDirectory ? 0 : info.size, 28);
+	}
+
+
+	/**
+	 * Short name generation as described in fatspec.pdf, "Basis-Name Generation Algorithm" and
+	 * "Numeric-Tail Generation Algorithm".
+	 *
+	 * @param name Long name of the file
+	 * @param existingShortNames Short names (11 bytes, space padded) already present in the directory
+	 */
+	protected generateShortName(name: string, existingShortNames: Set<string>): {shortName: Buffer, needsLongName: boolean} {
+		let lossy = false;
+		const toShortChars = (value: string): string => {
+			return value
+				.toUpperCase()
+				.replace(/[ .]/g, '')
+				.replace(/[^A-Z0-9!#$%&'()\-@^_`{}~]/g, () => {
+					lossy = true;
+					return '_';
+				});
+		};
+
+		const trimmed = name.replace(/^\.+/, '');
+		const lastDot = trimmed.lastIndexOf('.');
+		const basePart = lastDot > 0 ? trimmed.slice(0, lastDot) : trimmed;
+		const extPart = lastDot > 0 ? trimmed.slice(lastDot + 1) : '';
+
+		const base = toShortChars(basePart);
+		const ext = toShortChars(extPart);
+		const fits = !lossy && base.length > 0 && base.length <= 8 && ext.length <= 3;
+
+		const format = (basis: string): string => basis.padEnd(8, ' ') + ext.slice(0, 3).padEnd(3, ' ');
+
+		if(fits) {
+			const shortName = format(base);
+			const display = ext.length > 0 ? `${base}.${ext}` : base;
+			if(!existingShortNames.has(shortName)) {
+				return {
+					shortName: Buffer.from(shortName, 'latin1'),
+					needsLongName: display !== name,
+				};
+			}
+		}
+
+		for(let n = 1; n < 1_000_000; n++) {
+			const tail = `~${n}`;
+			const shortName = format((base || '_').slice(0, 8 - tail.length) + tail);
+			if(!existingShortNames.has(shortName)) {
+				return {
+					shortName: Buffer.from(shortName, 'latin1'),
+					needsLongName: true,
+				};
+			}
+		}
+
+		throw new FileAlreadyExistsError(name);
+	}
+
+
+	/**
+	 * Builds long name entries in the order they are stored on disk (last part of the name first).
+	 */
+	protected buildLongNameEntries(name: string, shortName: Buffer): Buffer[] {
+		let checksum = 0;
+		for(const byte of shortName) {
+			checksum = (((checksum & 1) << 7) + (checksum >> 1) + byte) & 0xFF;
+		}
+
+		// Name is terminated by 0x0000 (unless it fills the last entry exactly) and padded by 0xFFFF
+		const charsPerEntry = 13;
+		const codeUnits = Array.from({length: name.length}, (_, i) => name.charCodeAt(i));
+		if(codeUnits.length % charsPerEntry !== 0) {
+			codeUnits.push(0x0000);
+		}
+		while(codeUnits.length % charsPerEntry !== 0) {
+			codeUnits.push(0xFFFF);
+		}
+
+		const count = codeUnits.length / charsPerEntry;
+		const entries: Buffer[] = [];
+		for(let i = 0; i < count; i++) {
+			const entry = Buffer.alloc(ENTRY_SIZE);
+			entry[0] = (i + 1) | (i === count - 1 ? 0x40 : 0);
+			entry[11] = ATTR_LONG_NAME;
+			entry[13] = checksum;
+
+			const chars = codeUnits.slice(i * charsPerEntry, (i + 1) * charsPerEntry);
+			const positions = [1, 3, 5, 7, 9, 14, 16, 18, 20, 22, 24, 28, 30];
+			chars.forEach((char, index) => entry.writeUInt16LE(char, positions[index]));
+
+			entries.push(entry);
+		}
+
+		return entries.reverse();
+	}
 }
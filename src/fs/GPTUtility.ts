@@ -0,0 +1,190 @@
+import type {IBlockDevice} from "../types/IBlockDevice.ts";
+import type {IPartitionInfo} from "./types/IPartitionInfo.ts";
+import {EFileSystems} from "./types/EFileSystems.ts";
+import {EPartitionKind} from "./types/EPartitionKind.ts";
+import {crc32} from "../utils/crc32.ts";
+import {InvalidPartitionTableError} from "./errors/InvalidPartitionTableError.ts";
+import {detectFileSystemFromBootSector} from "../utils/detectFileSystemFromBootSector.ts";
+
+/**
+ * Well known partition type GUIDs, see https://en.wikipedia.org/wiki/GUID_Partition_Table#Partition_type_GUIDs
+ */
+const BASIC_DATA_GUID = "EBD0A0A2-B9E5-4433-87C0-68B6B72699C7";
+const EFI_SYSTEM_GUID = "C12A7328-F81F-11D2-BA4B-00A0C93EC93B";
+const LINUX_FILESYSTEM_GUID = "0FC63DAF-8483-4772-8E79-3D69D8477DE4";
+const UNUSED_ENTRY_GUID = "00000000-0000-0000-0000-000000000000";
+
+interface IGPTHeader {
+	partitionEntryLBA: number;
+	numberOfEntries: number;
+	sizeOfEntry: number;
+	entriesCRC32: number;
+}
+
+/**
+ * Used specification: UEFI Specification, chapter 5 - GUID Partition Table (GPT) Disk Layout
+ */
+export class GPTUtility {
+	constructor(
+		protected device: IBlockDevice,
+	) {
+	}
+
+
+	/**
+	 * Reads primary GPT header at LBA 1 and falls back to backup header at the last LBA of the device when
+	 * primary header or its partition entry array is damaged.
+	 *
+	 * @throws {InvalidPartitionTableError} When neither primary nor backup GPT is valid.
+	 */
+	public async getPartitions(): Promise<IPartitionInfo[]> {
+		let entries = await this.readPartitionEntries(1);
+
+		if(!entries) {
+			console.warn("Primary GPT header is damaged, trying backup header at the end of the device.");
+			const capacity = await this.device.getBlockCount();
+			entries = await this.readPartitionEntries(capacity - 1);
+		}
+
+		if(!entries) {
+			throw new InvalidPartitionTableError("Both primary and backup GPT headers are damaged");
+		}
+
+		const partitions: IPartitionInfo[] = [];
+		for(let offset = 0; offset < entries.entries.length; offset += entries.sizeOfEntry) {
+			const slot = offset / entries.sizeOfEntry;
+			const typeGUID = this.parseGUID(entries.entries, offset);
+			if(typeGUID === UNUSED_ENTRY_GUID) {
+				continue;
+			}
+
+			const startLBA = Number(entries.entries.readBigUInt64LE(offset + 32));
+			const endLBA = Number(entries.entries.readBigUInt64LE(offset + 40));
+
+			partitions.push({
+				startLBA,
+				length: endLBA - startLBA + 1,
+				type: await this.detectFileSystem(typeGUID, startLBA),
+				kind: EPartitionKind.PRIMARY,
+				number: slot + 1,
+				tableLBA: entries.partitionEntryLBA + Math.floor(offset / 512),
+				tableSlot: slot,
+			});
+		}
+
+		return partitions;
+	}
+
+
+	public async detectFileSystem(typeGUID: string, startLBA: number): Promise<EFileSystems> {
+		switch(typeGUID) {
+			case BASIC_DATA_GUID:
+			case EFI_SYSTEM_GUID:
+				// Basic data partition can hold FAT, exFAT or NTFS, type GUID does not tell which one
+				return detectFileSystemFromBootSector(await this.device.readBlocks(startLBA, 1));
+			case LINUX_FILESYSTEM_GUID:
+				return EFileSystems.LINUX_FILESYSTEM;
+			default:
+				return EFileSystems.UNKNOWN;
+		}
+	}
+
+
+	/**
+	 * Reads and verifies GPT header at given LBA and partition entry array it points to.
+	 *
+	 * @returns Raw partition entry array or null when header or entries CRC32 does not match.
+	 */
+	protected async readPartitionEntries(headerLBA: number): Promise<{entries: Buffer, sizeOfEntry: number, partitionEntryLBA: number} | null> {
+		const header = await this.readHeader(headerLBA);
+		if(!header) {
+			return null;
+		}
+
+		const length = header.numberOfEntries * header.sizeOfEntry;
+		const blocks = Math.ceil(length / 512);
+
+		const entries = (await this.device.readBlocks(header.partitionEntryLBA, blocks)).subarray(0, length);
+		if(crc32(entries) !== header.entriesCRC32) {
+			console.warn(`GPT partition entry array CRC32 mismatch for header at LBA ${headerLBA}.`);
+			return null;
+		}
+
+		return {entries, sizeOfEntry: header.sizeOfEntry, partitionEntryLBA: header.partitionEntryLBA};
+	}
+
+
+	protected async readHeader(lba: number): Promise<IGPTHeader | null> {
+		/**
+		 * Offset   Size (bytes)    Field
+		 * 0        8               Signature (b"EFI PART")
+		 * 8        4               Revision
+		 * 12       4               HeaderSize
+		 * 16       4               HeaderCRC32 (computed with this field zeroed)
+		 * 24       8               MyLBA
+		 * 32       8               AlternateLBA
+		 * 40       8               FirstUsableLBA
+		 * 48       8               LastUsableLBA
+		 * 56       16              DiskGUID
+		 * 72       8               PartitionEntryLBA
+		 * 80       4               NumberOfPartitionEntries
+		 * 84       4               SizeOfPartitionEntry
+		 * 88       4               PartitionEntryArrayCRC32
+		 */
+		const sector = await this.device.readBlocks(lba, 1);
+
+		if(sector.toString('ascii', 0, 8) !== "EFI PART") {
+			console.warn(`GPT header signature not found at LBA ${lba}.`);
+			return null;
+		}
+
+		const headerSize = sector.readUInt32LE(12);
+		if(headerSize < 92 || headerSize > sector.length) {
+			console.warn(`GPT header at LBA ${lba} has invalid size ${headerSize}.`);
+			return null;
+		}
+
+		const header = Buffer.from(sector.subarray(0, headerSize));
+		const headerCRC32 = header.readUInt32LE(16);
+		header.writeUInt32LE(0, 16);
+		if(crc32(header) !== headerCRC32) {
+			console.warn(`GPT header CRC32 mismatch at LBA ${lba}.`);
+			return null;
+		}
+
+		const sizeOfEntry = sector.readUInt32LE(84);
+		if(sizeOfEntry < 128) {
+			console.warn(`GPT header at LBA ${lba} has invalid partition entry size ${sizeOfEntry}.`);
+			return null;
+		}
+
+		return {
+			partitionEntryLBA: Number(sector.readBigUInt64LE(72)),
+			numberOfEntries: sector.readUInt32LE(80),
+			sizeOfEntry,
+			entriesCRC32: sector.readUInt32LE(88),
+		};
+	}
+
+
+	/**
+	 * GUIDs are stored in mixed endian - first three groups are little-endian, the rest is big-endian.
+	 */
+	protected parseGUID(buffer: Buffer, offset: number): string {
+		const hex = (start: number, end: number, reverse: boolean): string => {
+			const bytes = Array.from(buffer.subarray(offset + start, offset + end));
+			if(reverse) {
+				bytes.reverse();
+			}
+			return bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('');
+		};
+
+		return [
+			hex(0, 4, true),
+			hex(4, 6, true),
+			hex(6, 8, true),
+			hex(8, 10, false),
+			hex(10, 16, false),
+		].join('-').toUpperCase();
+	}
+}
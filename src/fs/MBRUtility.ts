@@ -1,44 +1,167 @@
-import type {Card} from "../Card.ts";
+import type {IBlockDevice} from "../types/IBlockDevice.ts";
 import type {IPartitionInfo} from "./types/IPartitionInfo.ts";
 import {EFileSystems} from "./types/EFileSystems.ts";
+import {EPartitionKind} from "./types/EPartitionKind.ts";
+import {GPTUtility} from "./GPTUtility.ts";
+import {detectFileSystemFromBootSector} from "../utils/detectFileSystemFromBootSector.ts";
 
 export class MBRUtility {
 	constructor(
-		protected card: Card,
+		protected device: IBlockDevice,
 	) {
 	}
 
+	/**
+	 * Maximal count of EBRs we follow, protects against corrupted or malicious EBR chains.
+	 * Counts all visited EBRs, including empty ones without logical partition.
+	 */
+	protected maxExtendedBootRecords: number = 128;
+
+	/**
+	 * Reads partitions from MBR. When the MBR is only protective MBR of GPT partitioned card,
+	 * partitions are read from GPT instead.
+	 *
+	 * Logical partitions from extended partition are returned after all primary partitions.
+	 */
 	public async getPartitions(): Promise<IPartitionInfo[]> {
-		const MBR = await this.card.readBinaryData(0, 1); // Read the first sector (512 bytes)
-		const partitionTableOffset = 446; // Partition table starts at byte 446
-		const partitionEntrySize = 16; // Each partition entry is 16 bytes
+		const MBR = await this.device.readBlocks(0, 1); // Read the first sector (512 bytes)
 		const partitions: IPartitionInfo[] = [];
+		const extendedPartitions: IPartitionInfo[] = [];
 
 		for (let i = 0; i < 4; i++) {
-			const entryOffset = partitionTableOffset + i * partitionEntrySize;
-			const partitionType = MBR.readUInt8(entryOffset + 4); // Partition type
-			const startLBA = MBR.readUInt32LE(entryOffset + 8); // Starting LBA
-			const length = MBR.readUInt32LE(entryOffset + 12); // Number of blocks
-
-			if (partitionType !== 0) { // Ignore empty partitions
-				partitions.push({
-					startLBA,
-					length,
-					type: this.detectFileSystem(partitionType),
+			const entry = this.readPartitionEntry(MBR, i);
+
+			if (entry.partitionType === 0xEE) { // GPT protective MBR
+				return new GPTUtility(this.device).getPartitions();
+			}
+
+			if (entry.partitionType !== 0) { // Ignore empty partitions
+				const partition = await this.createPartitionInfo(entry.partitionType, entry.startLBA, entry.length, {
+					kind: EPartitionKind.PRIMARY,
+					number: i + 1,
+					tableLBA: 0,
+					tableSlot: i,
 				});
+				partitions.push(partition);
+
+				if (partition.type === EFileSystems.EXTENDED_PARTITION) {
+					extendedPartitions.push(partition);
+				}
 			}
 		}
 
+		// Logical partitions are numbered from 5, no matter how many primary partitions exist
+		let nextLogicalNumber = 5;
+		for (const extendedPartition of extendedPartitions) {
+			const logicalPartitions = await this.getLogicalPartitions(extendedPartition, nextLogicalNumber);
+			partitions.push(...logicalPartitions);
+			nextLogicalNumber += logicalPartitions.length;
+		}
+
 		return partitions;
 	}
 
+
+	/**
+	 * Walks linked list of EBRs inside extended partition. First entry of each EBR describes logical partition
+	 * (relative to the EBR), second entry points to the next EBR (relative to the start of extended partition).
+	 */
+	protected async getLogicalPartitions(extendedPartition: IPartitionInfo, firstNumber: number): Promise<IPartitionInfo[]> {
+		const partitions: IPartitionInfo[] = [];
+		const visited = new Set<number>();
+		const extendedEnd = extendedPartition.startLBA + extendedPartition.length;
+
+		let ebrLBA = extendedPartition.startLBA;
+		while (true) {
+			if (visited.size >= this.maxExtendedBootRecords) {
+				console.warn(`EBR chain is longer than ${this.maxExtendedBootRecords} records, stopping.`);
+				break;
+			}
+			if (visited.has(ebrLBA)) {
+				console.warn(`EBR chain loops back to LBA ${ebrLBA}, stopping.`);
+				break;
+			}
+			if (ebrLBA < extendedPartition.startLBA || ebrLBA >= extendedEnd) {
+				console.warn(`EBR at LBA ${ebrLBA} is outside of extended partition, stopping.`);
+				break;
+			}
+			visited.add(ebrLBA);
+
+			const EBR = await this.device.readBlocks(ebrLBA, 1);
+			if (EBR.readUInt16LE(510) !== 0xAA55) {
+				console.warn(`EBR at LBA ${ebrLBA} has invalid signature, stopping.`);
+				break;
+			}
+
+			const logical = this.readPartitionEntry(EBR, 0);
+			const startLBA = ebrLBA + logical.startLBA;
+			if (logical.partitionType !== 0 && startLBA + logical.length <= extendedEnd) {
+				partitions.push(await this.createPartitionInfo(logical.partitionType, startLBA, logical.length, {
+					kind: EPartitionKind.LOGICAL,
+					number: firstNumber + partitions.length,
+					tableLBA: ebrLBA,
+					tableSlot: 0,
+				}));
+			} else if (logical.partitionType !== 0) {
+				console.warn(`Logical partition in EBR at LBA ${ebrLBA} is outside of extended partition, skipping.`);
+			}
+
+			const next = this.readPartitionEntry(EBR, 1);
+			if (next.partitionType === 0 || next.startLBA === 0) {
+				break;
+			}
+			ebrLBA = extendedPartition.startLBA + next.startLBA;
+		}
+
+		return partitions;
+	}
+
+
+	protected readPartitionEntry(sector: Buffer, slot: number): {partitionType: number, startLBA: number, length: number} {
+		const partitionTableOffset = 446; // Partition table starts at byte 446
+		const partitionEntrySize = 16; // Each partition entry is 16 bytes
+		const entryOffset = partitionTableOffset + slot * partitionEntrySize;
+
+		return {
+			partitionType: sector.readUInt8(entryOffset + 4), // Partition type
+			startLBA: sector.readUInt32LE(entryOffset + 8), // Starting LBA
+			length: sector.readUInt32LE(entryOffset + 12), // Number of blocks
+		};
+	}
+
+
+	protected async createPartitionInfo(
+		partitionType: number,
+		startLBA: number,
+		length: number,
+		location: Pick<IPartitionInfo, 'kind' | 'number' | 'tableLBA' | 'tableSlot'>,
+	): Promise<IPartitionInfo> {
+		let type = this.detectFileSystem(partitionType);
+		if (partitionType === 0x07) {
+			type = await this.detectNTFSOrExFAT(startLBA);
+		}
+
+		return {
+			startLBA,
+			length,
+			type,
+			...location,
+		};
+	}
+
 	public detectFileSystem(partitionType: number): EFileSystems {
 		switch (partitionType) {
+			case 0x01:
+				return EFileSystems.FAT12;
+			case 0x04:
+			case 0x06:
+			case 0x0E:
+				return EFileSystems.FAT16;
 			case 0x0B:
 			case 0x0C:
 				return EFileSystems.FAT32;
 			case 0x07:
-				return EFileSystems.NTFS; // Or exFAT
+				return EFileSystems.NTFS; // Or exFAT, see detectNTFSOrExFAT
 			case 0x83:
 				return EFileSystems.LINUX_FILESYSTEM;
 			case 0x05:
@@ -48,4 +171,24 @@ export class MBRUtility {
 				return EFileSystems.UNKNOWN;
 		}
 	}
+
+
+	/**
+	 * Partition type 0x07 is shared by NTFS and exFAT, so we need to check OEM name in the boot sector of partition.
+	 */
+	public async detectNTFSOrExFAT(startLBA: number): Promise<EFileSystems> {
+		const type = await this.detectFileSystemFromBootSector(startLBA);
+		if (type === EFileSystems.EXFAT || type === EFileSystems.NTFS) {
+			return type;
+		}
+
+		console.warn(`Unknown boot sector for partition type 0x07 at LBA ${startLBA}, assuming NTFS.`);
+		return EFileSystems.NTFS;
+	}
+
+
+	public async detectFileSystemFromBootSector(startLBA: number): Promise<EFileSystems> {
+		const bootSector = await this.device.readBlocks(startLBA, 1);
+		return detectFileSystemFromBootSector(bootSector);
+	}
 }
@@ -0,0 +1,10 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+
+export class DirectoryNotEmptyError extends WifiSdcfError {
+	constructor(
+		public path: string,
+	) {
+		super(EErrorCode.DIRECTORY_NOT_EMPTY, `Directory "${path}" is not empty`);
+	}
+}
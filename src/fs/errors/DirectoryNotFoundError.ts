@@ -1,3 +1,9 @@
-export class DirectoryNotFoundError {
+import {PathNotFoundError} from "./PathNotFoundError.ts";
 
+export class DirectoryNotFoundError extends PathNotFoundError {
+	constructor(
+		path: string,
+	) {
+		super(path, `Directory "${path}" not found`);
+	}
 }
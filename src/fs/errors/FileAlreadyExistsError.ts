@@ -0,0 +1,10 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+
+export class FileAlreadyExistsError extends WifiSdcfError {
+	constructor(
+		public path: string,
+	) {
+		super(EErrorCode.FILE_ALREADY_EXISTS, `"${path}" already exists`);
+	}
+}
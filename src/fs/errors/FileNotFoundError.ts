@@ -1,3 +1,9 @@
-export class FileNotFoundError {
+import {PathNotFoundError} from "./PathNotFoundError.ts";
 
+export class FileNotFoundError extends PathNotFoundError {
+	constructor(
+		path: string,
+	) {
+		super(path, `File "${path}" not found`);
+	}
 }
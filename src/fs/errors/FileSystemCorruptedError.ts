@@ -0,0 +1,10 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+
+export class FileSystemCorruptedError extends WifiSdcfError {
+	constructor(
+		public reason: string,
+	) {
+		super(EErrorCode.FILE_SYSTEM_CORRUPTED, `File system is corrupted: ${reason}`);
+	}
+}
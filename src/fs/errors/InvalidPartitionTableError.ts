@@ -0,0 +1,10 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+
+export class InvalidPartitionTableError extends WifiSdcfError {
+	constructor(
+		public reason: string,
+	) {
+		super(EErrorCode.INVALID_PARTITION_TABLE, `Invalid partition table: ${reason}`);
+	}
+}
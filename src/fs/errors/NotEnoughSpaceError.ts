@@ -0,0 +1,10 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+
+export class NotEnoughSpaceError extends WifiSdcfError {
+	constructor(
+		public requestedBytes: number,
+	) {
+		super(EErrorCode.NOT_ENOUGH_SPACE, `Not enough free space for ${requestedBytes} bytes`);
+	}
+}
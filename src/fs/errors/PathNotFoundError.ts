@@ -0,0 +1,11 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+
+export class PathNotFoundError extends WifiSdcfError {
+	constructor(
+		public path: string,
+		message: string = `Path "${path}" not found`,
+	) {
+		super(EErrorCode.PATH_NOT_FOUND, message);
+	}
+}
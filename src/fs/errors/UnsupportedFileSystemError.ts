@@ -1,8 +1,11 @@
 import type {EFileSystems} from "../types/EFileSystems.ts";
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
 
-export class UnsupportedFileSystemError {
+export class UnsupportedFileSystemError extends WifiSdcfError {
   constructor(
 	  public filesystemType: EFileSystems,
   ) {
+	  super(EErrorCode.UNSUPPORTED_FILE_SYSTEM, `File system ${filesystemType} is not supported`);
   }
 }
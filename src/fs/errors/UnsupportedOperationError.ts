@@ -0,0 +1,11 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+
+export class UnsupportedOperationError extends WifiSdcfError {
+	constructor(
+		public operation: string,
+		message: string = `Operation ${operation} is not supported by this file system`,
+	) {
+		super(EErrorCode.UNSUPPORTED_OPERATION, message);
+	}
+}
@@ -1,6 +1,9 @@
 export enum EFileSystems {
+	FAT12 = 'FAT12',
+	FAT16 = 'FAT16',
 	FAT32 = 'FAT32',
 	NTFS = 'NTFS',
+	EXFAT = 'EXFAT',
 	LINUX_FILESYSTEM = 'LINUX_FILESYSTEM',
 	EXTENDED_PARTITION = 'EXTENDED_PARTITION',
 	UNKNOWN = 'UNKNOWN',
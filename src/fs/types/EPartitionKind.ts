@@ -0,0 +1,11 @@
+export enum EPartitionKind {
+	/**
+	 * Partition from one of four entries in MBR or from GPT partition entry array.
+	 */
+	PRIMARY = 'PRIMARY',
+
+	/**
+	 * Partition from EBR chain inside of extended partition.
+	 */
+	LOGICAL = 'LOGICAL',
+}
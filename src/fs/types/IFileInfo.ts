@@ -13,6 +13,11 @@ export interface IFileInfo {
 	 */
 	clusterNumber: number;
 
+	/**
+	 * Clusters are allocated contiguously and the allocation table must not be consulted (exFAT NoFatChain flag).
+	 */
+	contiguous?: boolean;
+
 	creationTime: Date;
 	modificationTime: Date;
 }
@@ -1,4 +1,5 @@
 import type {IFileInfo} from "./IFileInfo.ts";
+import type {IBlockRange} from "../../types/IBlockRange.ts";
 import {Directory} from "../../Directory.ts";
 
 export interface IFileSystemAdapter {
@@ -17,6 +18,17 @@ export interface IFileSystemAdapter {
 	 */
 	getFileContent(file: IFileInfo): Promise<Buffer>;
 
+	/**
+	 * Reads part of the file content without reading the rest of the file.
+	 *
+	 * @param file The file to read.
+	 * @param offset Offset of the first byte to read.
+	 * @param length Count of bytes to read, the result is shorter when the range exceeds the end of the file.
+	 *
+	 * @returns A promise that resolves to a Buffer containing the requested part of the file.
+	 */
+	readRange(file: IFileInfo, offset: number, length: number): Promise<Buffer>;
+
 	/**
 	 * Lists all files and directories in the specified path.
 	 *
@@ -26,6 +38,69 @@ export interface IFileSystemAdapter {
 	 */
 	listFolder(path: string | IFileInfo): Promise<IFileInfo[]>;
 
+	/**
+	 * Writes content to the file, existing file is overwritten. Parent directory must exist.
+	 *
+	 * @param path Full path of the file, eg. "/CONFIG/settings.ini"
+	 * @param content Content of the file
+	 *
+	 * @returns A promise that resolves to IFileInfo of the written file.
+	 */
+	writeFile(path: string, content: Buffer): Promise<IFileInfo>;
+
+	/**
+	 * Deletes the file and releases its clusters.
+	 *
+	 * @param path Full path of the file
+	 */
+	deleteFile(path: string): Promise<void>;
+
+	/**
+	 * Renames file or directory within its parent directory.
+	 *
+	 * @param path Full path of the file or directory
+	 * @param newName New name, without path
+	 *
+	 * @returns A promise that resolves to IFileInfo of the renamed entry.
+	 */
+	rename(path: string, newName: string): Promise<IFileInfo>;
+
+	/**
+	 * Creates a new empty directory. Parent directory must exist.
+	 *
+	 * @param path Full path of the new directory
+	 *
+	 * @returns A promise that resolves to IFileInfo of the created directory.
+	 */
+	createDirectory(path: string): Promise<IFileInfo>;
+
+	/**
+	 * Removes the directory. Non-empty directory is removed only when recursive is true.
+	 *
+	 * @param path Full path of the directory
+	 * @param recursive Remove all files and subdirectories as well
+	 */
+	removeDirectory(path: string, recursive: boolean): Promise<void>;
+
+	/**
+	 * Drops all cached file system metadata (eg. FAT sectors), so next operation reads current state from the card.
+	 */
+	invalidateCache(): void;
+
+	/**
+	 * Registers callback called when card reports that its host (eg. camera) wrote new data to this partition.
+	 * Cards without notification support never call it, so callers should keep polling as a fallback.
+	 */
+	subscribeForChanges(callback: () => void): void;
+
+	unsubscribeForChanges(callback: () => void): void;
+
+	/**
+	 * Returns ranges of blocks (LBA of the device) occupied by free clusters, their content is not needed for backup.
+	 * Includes modifications not yet flushed to the device.
+	 */
+	getFreeRanges(): Promise<IBlockRange[]>;
+
 	/**
 	 * Does name comparison based on file system rules (eg. case-insensitive for FAT32).
 	 */
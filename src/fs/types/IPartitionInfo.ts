@@ -1,7 +1,26 @@
 import type {EFileSystems} from "./EFileSystems.ts";
+import type {EPartitionKind} from "./EPartitionKind.ts";
 
 export interface IPartitionInfo {
 	startLBA: number;
 	length: number;
 	type: EFileSystems;
+
+	kind: EPartitionKind;
+
+	/**
+	 * Partition number as Linux numbers them - primary partitions are 1-4 by their MBR slot (or GPT entry index + 1),
+	 * logical partitions are numbered from 5 in order of EBR chain.
+	 */
+	number: number;
+
+	/**
+	 * LBA of the sector with the partition table this partition was read from (MBR, EBR or GPT entry array).
+	 */
+	tableLBA: number;
+
+	/**
+	 * Index of the entry in the partition table this partition was read from.
+	 */
+	tableSlot: number;
 }
@@ -0,0 +1,256 @@
+import fs from "node:fs/promises";
+import crypto from "node:crypto";
+import type {IBlockDevice} from "../types/IBlockDevice.ts";
+import type {IBlockRange} from "../types/IBlockRange.ts";
+import type {IDumpImageOptions} from "./types/IDumpImageOptions.ts";
+import type {IImageManifest} from "./types/IImageManifest.ts";
+import type {IImageChunk} from "./types/IImageChunk.ts";
+import {MBRUtility} from "../fs/MBRUtility.ts";
+import {createFileSystemAdapter} from "../utils/createFileSystemAdapter.ts";
+import {ImageManifestMismatchError} from "./errors/ImageManifestMismatchError.ts";
+import {WifiSdcfError} from "../errors/WifiSdcfError.ts";
+import {InvalidArgumentError} from "../errors/InvalidArgumentError.ts";
+
+/**
+ * Manifest is rewritten at most this often, it grows with every chunk.
+ */
+const CHECKPOINT_INTERVAL = 5000;
+
+/**
+ * Dumps blocks of the device to raw image file. Block `startLBA` of the device is at offset 0 of the image.
+ *
+ * Progress is checkpointed to the sidecar manifest, so interrupted dump continues with the first chunk
+ * not recorded there.
+ */
+export class ImageDumper {
+
+	public readonly manifestPath: string;
+
+	/**
+	 * Sorted, non-overlapping ranges of free clusters, filled in sparse mode.
+	 */
+	protected freeRanges: IBlockRange[] = [];
+
+	constructor(
+		protected device: IBlockDevice,
+		protected imagePath: string,
+		protected options: IDumpImageOptions = {},
+	) {
+		this.manifestPath = `${imagePath}.manifest.json`;
+	}
+
+
+	/**
+	 * @returns Manifest of the finished image.
+	 * @throws {ImageManifestMismatchError} When resuming dump started with different parameters.
+	 */
+	public async dump(): Promise<IImageManifest> {
+		const startLBA = this.options.startLBA ?? 0;
+		const manifest: IImageManifest = {
+			version: 1,
+			blockSize: this.device.blockSize,
+			startLBA,
+			count: this.options.count ?? (await this.device.getBlockCount()) - startLBA,
+			chunkBlocks: this.options.chunkBlocks ?? 2048,
+			sparse: this.options.sparse ?? false,
+			startedAt: new Date().toISOString(),
+			completedAt: null,
+			chunks: [],
+		};
+
+		if(manifest.count < 0 || manifest.chunkBlocks < 1) {
+			throw new InvalidArgumentError(`Invalid range ${startLBA}+${manifest.count} or chunk size ${manifest.chunkBlocks}`);
+		}
+
+		const previous = this.options.resume !== false ? await this.loadManifest(manifest) : null;
+		if(previous?.completedAt) {
+			return previous;
+		}
+		if(previous) {
+			manifest.startedAt = previous.startedAt;
+			manifest.chunks = previous.chunks;
+		}
+
+		if(manifest.sparse) {
+			await this.loadFreeRanges();
+		}
+
+		const image = await fs.open(this.imagePath, previous ? "r+" : "w");
+		try {
+			// Extending by truncate leaves holes, skipped blocks take no space
+			await image.truncate(manifest.count * manifest.blockSize);
+			await this.dumpChunks(image, manifest);
+			await image.datasync();
+		} catch(err) {
+			// Keep what was dumped before the failure (eg. card went offline)
+			try {
+				await image.datasync();
+				await this.saveManifest(manifest);
+			} catch(checkpointErr) {
+				console.warn(`Progress of dump can not be saved: ${(checkpointErr as Error).message}`);
+			}
+			throw err;
+		} finally {
+			await image.close();
+		}
+
+		manifest.completedAt = new Date().toISOString();
+		await this.saveManifest(manifest);
+
+		return manifest;
+	}
+
+
+	protected async dumpChunks(image: fs.FileHandle, manifest: IImageManifest): Promise<void> {
+		const chunkCount = Math.ceil(manifest.count / manifest.chunkBlocks);
+		const startedAt = Date.now();
+		let bytesRead = 0;
+		let blocksSkipped = manifest.chunks.reduce((sum, chunk) => sum + chunk.skippedBlocks, 0);
+		let lastCheckpoint = Date.now();
+
+		for(let index = manifest.chunks.length; index < chunkCount; index++) {
+			const offset = index * manifest.chunkBlocks;
+			const LBA_start = manifest.startLBA + offset;
+			const count = Math.min(manifest.chunkBlocks, manifest.count - offset);
+
+			const data = Buffer.alloc(count * manifest.blockSize);
+			let readBlocks = 0;
+			for(const range of this.getAllocatedRanges(LBA_start, count)) {
+				const blocks = await this.device.readBlocks(range.LBA_start, range.count);
+				const position = (range.LBA_start - LBA_start) * manifest.blockSize;
+				blocks.copy(data, position);
+				await image.write(blocks, 0, blocks.length, offset * manifest.blockSize + position);
+				readBlocks += range.count;
+			}
+			bytesRead += readBlocks * manifest.blockSize;
+			blocksSkipped += count - readBlocks;
+
+			const chunk: IImageChunk = {
+				index,
+				LBA_start,
+				count,
+				skippedBlocks: count - readBlocks,
+				sha256: crypto.createHash("sha256").update(data).digest("hex"),
+			};
+			manifest.chunks.push(chunk);
+
+			if(Date.now() - lastCheckpoint >= CHECKPOINT_INTERVAL) {
+				// Chunks must be on disk before the manifest claims them
+				await image.datasync();
+				await this.saveManifest(manifest);
+				lastCheckpoint = Date.now();
+			}
+
+			this.options.onProgress?.({
+				blocksDone: Math.min(manifest.count, (index + 1) * manifest.chunkBlocks),
+				blocksSkipped,
+				blocksTotal: manifest.count,
+				bytesPerSecond: bytesRead / Math.max(0.001, (Date.now() - startedAt) / 1000),
+			});
+		}
+	}
+
+
+	/**
+	 * Returns parts of the range which are not covered by free ranges.
+	 */
+	protected getAllocatedRanges(LBA_start: number, count: number): IBlockRange[] {
+		const ranges: IBlockRange[] = [];
+		const end = LBA_start + count;
+		let position = LBA_start;
+
+		for(const free of this.freeRanges) {
+			const freeEnd = free.LBA_start + free.count;
+			if(freeEnd <= position) {
+				continue;
+			}
+			if(free.LBA_start >= end) {
+				break;
+			}
+
+			if(free.LBA_start > position) {
+				ranges.push({LBA_start: position, count: free.LBA_start - position});
+			}
+			position = freeEnd;
+		}
+
+		if(position < end) {
+			ranges.push({LBA_start: position, count: end - position});
+		}
+
+		return ranges;
+	}
+
+
+	/**
+	 * Collects free clusters of all partitions with supported file system. Partitions which can not be read
+	 * are dumped completely.
+	 */
+	protected async loadFreeRanges(): Promise<void> {
+		let partitions;
+		try {
+			partitions = await new MBRUtility(this.device).getPartitions();
+		} catch(err) {
+			if(!(err instanceof WifiSdcfError)) {
+				throw err;
+			}
+			console.warn(`Partition table can not be read, dumping all blocks: ${err.message}`);
+			return;
+		}
+
+		const ranges: IBlockRange[] = [];
+		for(const partitionInfo of partitions) {
+			try {
+				ranges.push(...await createFileSystemAdapter(this.device, partitionInfo).getFreeRanges());
+			} catch(err) {
+				if(!(err instanceof WifiSdcfError)) {
+					throw err;
+				}
+				console.warn(`Partition at LBA ${partitionInfo.startLBA} is dumped completely: ${err.message}`);
+			}
+		}
+
+		this.freeRanges = ranges.sort((a, b) => a.LBA_start - b.LBA_start);
+	}
+
+
+	/**
+	 * @returns Manifest of previous dump to the same path or null when there is none, or its image is missing
+	 * or was resized.
+	 */
+	protected async loadManifest(expected: IImageManifest): Promise<IImageManifest | null> {
+		let manifest: IImageManifest;
+		try {
+			manifest = JSON.parse(await fs.readFile(this.manifestPath, "utf8"));
+		} catch(err) {
+			if((err as NodeJS.ErrnoException).code === "ENOENT") {
+				return null;
+			}
+			throw err;
+		}
+
+		for(const field of ["version", "blockSize", "startLBA", "count", "chunkBlocks", "sparse"] as const) {
+			if(manifest[field] !== expected[field]) {
+				throw new ImageManifestMismatchError(this.manifestPath, field);
+			}
+		}
+
+		const imageSize = await fs.stat(this.imagePath).then((stats) => stats.size, () => null);
+		if(imageSize !== manifest.count * manifest.blockSize) {
+			console.warn(`Image ${this.imagePath} does not match its manifest, dumping from the start`);
+			return null;
+		}
+
+		return manifest;
+	}
+
+
+	/**
+	 * Written to temporary file first, so crash during write leaves previous checkpoint intact.
+	 */
+	protected async saveManifest(manifest: IImageManifest): Promise<void> {
+		const temporaryPath = `${this.manifestPath}.tmp`;
+		await fs.writeFile(temporaryPath, JSON.stringify(manifest, null, "\t"));
+		await fs.rename(temporaryPath, this.manifestPath);
+	}
+}
@@ -0,0 +1,11 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+
+export class ImageManifestMismatchError extends WifiSdcfError {
+	constructor(
+		public manifestPath: string,
+		public field: string,
+	) {
+		super(EErrorCode.IMAGE_MANIFEST_MISMATCH, `Manifest ${manifestPath} was created with different ${field}, dump can not be resumed`);
+	}
+}
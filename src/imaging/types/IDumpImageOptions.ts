@@ -0,0 +1,30 @@
+import type {IDumpProgress} from "./IDumpProgress.ts";
+
+export interface IDumpImageOptions {
+	/**
+	 * First block to dump, default 0.
+	 */
+	startLBA?: number;
+
+	/**
+	 * Count of blocks to dump, default up to the end of the device.
+	 */
+	count?: number;
+
+	/**
+	 * Blocks per chunk, the unit of hashing and checkpointing. Default 2048 (1 MiB).
+	 */
+	chunkBlocks?: number;
+
+	/**
+	 * Skip blocks of free clusters of FAT and exFAT partitions, they are left as holes in the image.
+	 */
+	sparse?: boolean;
+
+	/**
+	 * Continue interrupted dump recorded in the manifest, default true. When false, dump starts over.
+	 */
+	resume?: boolean;
+
+	onProgress?: (progress: IDumpProgress) => void;
+}
@@ -0,0 +1,13 @@
+export interface IDumpProgress {
+	/**
+	 * Blocks stored in the image so far, including skipped ones and those stored before resume.
+	 */
+	blocksDone: number;
+	blocksSkipped: number;
+	blocksTotal: number;
+
+	/**
+	 * Read speed of the current run, skipped blocks are not counted.
+	 */
+	bytesPerSecond: number;
+}
@@ -0,0 +1,19 @@
+export interface IImageChunk {
+	index: number;
+
+	/**
+	 * First block of the chunk on the device.
+	 */
+	LBA_start: number;
+	count: number;
+
+	/**
+	 * Blocks of free clusters which were not read, they are zero in the image.
+	 */
+	skippedBlocks: number;
+
+	/**
+	 * Hex SHA-256 of the chunk as stored in the image (including zeroed skipped blocks).
+	 */
+	sha256: string;
+}
@@ -0,0 +1,21 @@
+import type {IImageChunk} from "./IImageChunk.ts";
+
+/**
+ * Sidecar of the image, `<image>.manifest.json`. Serves as checkpoint of interrupted dump as well,
+ * chunks are recorded in order once they are stored in the image.
+ */
+export interface IImageManifest {
+	version: 1;
+	blockSize: number;
+
+	/**
+	 * First block of the device stored at the beginning of the image.
+	 */
+	startLBA: number;
+	count: number;
+	chunkBlocks: number;
+	sparse: boolean;
+	startedAt: string;
+	completedAt: string | null;
+	chunks: IImageChunk[];
+}
@@ -0,0 +1,97 @@
+const BLOCK_SIZE = 512;
+
+/**
+ * Collects fragments of read response, card may split data of one read request into several datagrams.
+ * Position of fragment is given by LBA of the request it answers and `lba_offset` (in blocks) from that LBA,
+ * so fragments of partial re-requests sent with the same transfer ID land on the right place as well.
+ */
+export class ReadReassembler {
+
+	protected buffer: Buffer;
+
+	/**
+	 * One flag per byte of the buffer, 1 when byte was already received.
+	 */
+	protected received: Uint8Array;
+
+	protected bytesReceived: number = 0;
+
+	constructor(
+		public readonly LBA_start: number,
+		public readonly count: number,
+	) {
+		this.buffer = Buffer.alloc(count * BLOCK_SIZE);
+		this.received = new Uint8Array(count * BLOCK_SIZE);
+	}
+
+
+	get isComplete(): boolean {
+		return this.bytesReceived === this.buffer.length;
+	}
+
+
+	get hasProgress(): boolean {
+		return this.bytesReceived > 0;
+	}
+
+
+	get data(): Buffer {
+		return this.buffer;
+	}
+
+
+	/**
+	 * Stores fragment of the response.
+	 * @param lba - LBA of the request this fragment answers
+	 * @param lbaOffset - Offset of the fragment from the LBA, in blocks
+	 * @param fragment - Data of the fragment
+	 * @returns False when fragment does not belong to this transfer or all its bytes were already received.
+	 */
+	public addFragment(lba: number, lbaOffset: number, fragment: Buffer): boolean {
+		const start = (lba - this.LBA_start + lbaOffset) * BLOCK_SIZE;
+		const end = start + fragment.length;
+		if(start < 0 || end > this.buffer.length || fragment.length === 0) {
+			console.warn(`Fragment at LBA ${lba}+${lbaOffset} (${fragment.length} bytes) is outside of read ${this.LBA_start}+${this.count}.`);
+			return false;
+		}
+
+		let newBytes = 0;
+		for(let i = start; i < end; i++) {
+			if(!this.received[i]) {
+				this.received[i] = 1;
+				newBytes++;
+			}
+		}
+
+		if(newBytes === 0) {
+			return false;
+		}
+
+		fragment.copy(this.buffer, start);
+		this.bytesReceived += newBytes;
+		return true;
+	}
+
+
+	/**
+	 * Returns runs of blocks which were not received completely yet.
+	 */
+	public getMissingRanges(): {LBA_start: number, count: number}[] {
+		const ranges: {LBA_start: number, count: number}[] = [];
+		for(let block = 0; block < this.count; block++) {
+			const offset = block * BLOCK_SIZE;
+			if(this.received.subarray(offset, offset + BLOCK_SIZE).every((flag) => flag === 1)) {
+				continue;
+			}
+
+			const last = ranges[ranges.length - 1];
+			if(last && last.LBA_start + last.count === this.LBA_start + block) {
+				last.count++;
+			} else {
+				ranges.push({LBA_start: this.LBA_start + block, count: 1});
+			}
+		}
+
+		return ranges;
+	}
+}
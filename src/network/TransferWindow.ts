@@ -0,0 +1,85 @@
+import {READ_TIMEOUT} from "../constants/READ_TIMEOUT.ts";
+
+/**
+ * Keeps state of pipelined transfers - how many requests can be in flight and how long to wait for each of them.
+ *
+ * Window grows additively with every acknowledged request and is halved on timeout (AIMD, like TCP congestion
+ * avoidance). Timeout is derived from measured round trip time as described in RFC 6298.
+ */
+export class TransferWindow {
+
+	protected windowSize: number;
+
+	/**
+	 * SRTT - smoothed round trip time in milliseconds, null until the first sample.
+	 */
+	protected smoothedRtt: number | null = null;
+
+	/**
+	 * RTTVAR - round trip time variation in milliseconds.
+	 */
+	protected rttVariance: number = 0;
+
+	/**
+	 * Exponential backoff multiplier of timeout, reset by successful transfer.
+	 */
+	protected backoff: number = 1;
+
+	constructor(
+		protected initialWindow: number = 4,
+		protected maxWindow: number = 16,
+		protected minTimeout: number = 200,
+		protected maxTimeout: number = READ_TIMEOUT,
+	) {
+		this.windowSize = initialWindow;
+	}
+
+
+	/**
+	 * Count of requests which can be in flight at the same time.
+	 */
+	get size(): number {
+		return Math.max(1, Math.floor(this.windowSize));
+	}
+
+
+	/**
+	 * Time in milliseconds to wait for response before the request is retransmitted.
+	 */
+	get timeout(): number {
+		if(this.smoothedRtt === null) {
+			return this.maxTimeout;
+		}
+
+		const timeout = (this.smoothedRtt + 4 * this.rttVariance) * this.backoff;
+
+		return Math.min(this.maxTimeout, Math.max(this.minTimeout, timeout));
+	}
+
+
+	/**
+	 * Records round trip time of request. Per Karn's algorithm, retransmitted requests must not be sampled.
+	 */
+	public recordRtt(rtt: number): void {
+		if(this.smoothedRtt === null) {
+			this.smoothedRtt = rtt;
+			this.rttVariance = rtt / 2;
+			return;
+		}
+
+		this.rttVariance = 0.75 * this.rttVariance + 0.25 * Math.abs(this.smoothedRtt - rtt);
+		this.smoothedRtt = 0.875 * this.smoothedRtt + 0.125 * rtt;
+	}
+
+
+	public onSuccess(): void {
+		this.backoff = 1;
+		this.windowSize = Math.min(this.maxWindow, this.windowSize + 1 / this.windowSize);
+	}
+
+
+	public onTimeout(): void {
+		this.backoff = Math.min(this.backoff * 2, 8);
+		this.windowSize = Math.max(1, this.windowSize / 2);
+	}
+}
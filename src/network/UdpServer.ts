@@ -45,14 +45,24 @@ export class UdpServer implements Disposable {
 		this.subscribers[ip] = callback;
 	}
 
-	public unsubscribeForCard(ip: string): void {
-		delete this.subscribers[ip];
+	/**
+	 * @param callback When given, subscription is removed only when it belongs to this callback, so card which
+	 * moved away from the IP does not unsubscribe other card which took it over.
+	 */
+	public unsubscribeForCard(ip: string, callback?: (msg: Buffer, rinfo: dgram.RemoteInfo) => void): void {
+		if(!callback || this.subscribers[ip] === callback) {
+			delete this.subscribers[ip];
+		}
 	}
 
 	public subscribeForAll(callback: (msg: Buffer, rinfo: dgram.RemoteInfo) => void): void {
 		this.allSubscribers.push(callback);
 	}
 
+	public unsubscribeForAll(callback: (msg: Buffer, rinfo: dgram.RemoteInfo) => void): void {
+		this.allSubscribers = this.allSubscribers.filter((subscriber) => subscriber !== callback);
+	}
+
 	[Symbol.dispose]() {
 		this.destroy();
 	}
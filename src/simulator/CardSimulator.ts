@@ -0,0 +1,328 @@
+import dgram from "node:dgram";
+import fs from "node:fs/promises";
+import type {ICardSimulatorOptions} from "./types/ICardSimulatorOptions.ts";
+import type {IWifiConfig} from "../types/IWifiConfig.ts";
+import {CARD_PORT} from "../constants/CARD_PORT.ts";
+import {LOCAL_PORT} from "../constants/LOCAL_PORT.ts";
+import {serializeCardInfo} from "../utils/serializeCardInfo.ts";
+import {serializeWifiConfig} from "../utils/serializeWifiConfig.ts";
+import {parseWifiConfig} from "../utils/parseWifiConfig.ts";
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Simulates Wi-Fi SD card on the network, blocks are served from local disk image. Intended for testing of Card,
+ * NetworkDiscovery and file system adapters without hardware.
+ *
+ * Implements discovery (KTC), read (4), write (5), Wi-Fi configuration (10, 11, 15, 16) and password type (17).
+ * Outgoing datagrams can be dropped, reordered and delayed to simulate unreliable Wi-Fi.
+ */
+export class CardSimulator implements AsyncDisposable {
+
+	/**
+	 * Called for every received request, useful for assertions on traffic.
+	 */
+	public onRequest: (msg: Buffer, rinfo: dgram.RemoteInfo) => void = () => {};
+
+	protected socket: dgram.Socket | null = null;
+	protected image: fs.FileHandle | null = null;
+	protected capacity: number = 0;
+	protected wifiConfig: IWifiConfig;
+
+	/**
+	 * Addresses of clients which sent any request, "new data" notifications are sent to them.
+	 */
+	protected clients: Set<string> = new Set();
+
+	protected pendingTimers: Set<NodeJS.Timeout> = new Set();
+
+	protected random: () => number;
+
+	constructor(
+		protected imagePath: string,
+		protected options: ICardSimulatorOptions = {},
+	) {
+		this.wifiConfig = options.wifiConfig ?? {ssid: "WiFi@SDCF", password: "12345678", mode: "ap"};
+		this.random = options.random ?? Math.random;
+	}
+
+
+	async [Symbol.asyncDispose]() {
+		await this.stop();
+	}
+
+
+	/**
+	 * Opens the image and starts listening. Image is opened for writing as well, so writes done by the client
+	 * modify the file.
+	 */
+	public async start(): Promise<void> {
+		this.image = await fs.open(this.imagePath, "r+");
+		this.capacity = Math.floor((await this.image.stat()).size / BLOCK_SIZE);
+
+		const socket = dgram.createSocket("udp4");
+		socket.on("message", (msg, rinfo) => {
+			this.handleRequest(msg, rinfo).catch((err) => console.error(`Card simulator error: ${err}`));
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			socket.once("error", reject);
+			socket.bind(this.options.port ?? CARD_PORT, this.options.address, () => {
+				socket.off("error", reject);
+				socket.setBroadcast(true);
+				resolve();
+			});
+		});
+
+		this.socket = socket;
+	}
+
+
+	public async stop(): Promise<void> {
+		this.pendingTimers.forEach((timer) => clearTimeout(timer));
+		this.pendingTimers.clear();
+
+		if(this.socket) {
+			const socket = this.socket;
+			this.socket = null;
+			await new Promise<void>((resolve) => socket.close(() => resolve()));
+		}
+
+		if(this.image) {
+			await this.image.close();
+			this.image = null;
+		}
+	}
+
+
+	/**
+	 * Sends "new data in card" notification (command 9) to all clients, like card does when camera writes to it.
+	 */
+	public notifyNewData(LBA_start: number = 0, count: number = 0): void {
+		const msg = this.createResponse(9, 14);
+		msg.writeUInt32BE(LBA_start, 8);
+		msg.writeUInt16BE(count, 12);
+
+		this.clients.forEach((address) => this.send(msg, address));
+	}
+
+
+	protected async handleRequest(msg: Buffer, rinfo: dgram.RemoteInfo): Promise<void> {
+		this.onRequest(msg, rinfo);
+
+		if(msg.toString('ascii', 0, 3) === "KTC") {
+			this.clients.add(rinfo.address);
+			this.send(serializeCardInfo({
+				ip: this.options.ip ?? "127.0.0.1",
+				mac: this.options.mac ?? "02:00:00:00:00:01",
+				type: this.options.type ?? "SD",
+				version: "1.0.0",
+				capacity: this.capacity,
+				apMode: this.wifiConfig.mode === "ap",
+				subver: "simulator",
+			}), rinfo.address);
+			return;
+		}
+
+		if(msg.length < 48 || msg.toString('ascii', 0, 6) !== "FC1307" || msg.readUInt8(6) !== 1) {
+			console.warn(`Card simulator received malformed request from ${rinfo.address}`);
+			return;
+		}
+
+		this.clients.add(rinfo.address);
+		const cmd = msg.readUInt8(7);
+
+		switch(cmd) {
+			case 4:
+				await this.handleRead(msg, rinfo.address);
+				break;
+			case 5:
+				await this.handleWrite(msg, rinfo.address);
+				break;
+			case 10:
+				this.handleSetWifiConfig(msg, rinfo.address);
+				break;
+			case 11:
+				this.handleQueryWifiConfig(rinfo.address);
+				break;
+			case 15:
+				this.handleModeChange(msg, rinfo.address);
+				break;
+			case 16:
+				this.send(this.createResponse(16, 9), rinfo.address); // No networks in range
+				break;
+			case 17: {
+				const response = this.createResponse(17, 9);
+				response.writeUInt8(this.options.credentials ? 1 : 0, 8);
+				this.send(response, rinfo.address);
+				break;
+			}
+			default:
+				console.warn(`Card simulator received unsupported command ${cmd}`);
+		}
+	}
+
+
+	protected async handleRead(msg: Buffer, address: string): Promise<void> {
+		const lba = msg.readUInt32BE(8);
+		const count = msg.readUInt16BE(12);
+		const tid = msg.readUInt32BE(48);
+
+		const status = this.checkRequest(msg, lba, count);
+		if(status !== 0x18) {
+			this.send(this.createDataResponse(4, lba, 0, status, tid, Buffer.alloc(0)), address);
+			return;
+		}
+
+		const data = Buffer.alloc(count * BLOCK_SIZE);
+		await this.image!.read(data, 0, data.length, lba * BLOCK_SIZE);
+
+		const fragmentBlocks = Math.max(1, this.options.fragmentBlocks ?? 14);
+		for(let offset = 0; offset < count; offset += fragmentBlocks) {
+			const fragment = data.subarray(offset * BLOCK_SIZE, Math.min(count, offset + fragmentBlocks) * BLOCK_SIZE);
+			this.send(this.createDataResponse(4, lba, offset, status, tid, fragment), address);
+		}
+	}
+
+
+	protected async handleWrite(msg: Buffer, address: string): Promise<void> {
+		const lba = msg.readUInt32BE(8);
+		const count = msg.readUInt16BE(12);
+		const tid = msg.readUInt32BE(48);
+
+		const status = this.checkRequest(msg, lba, count);
+		if(status === 0x18 && msg.length < 52 + count * BLOCK_SIZE) {
+			console.warn(`Card simulator received write of ${count} blocks with only ${msg.length - 52} bytes of data`);
+			return;
+		}
+
+		if(status === 0x18) {
+			await this.image!.write(msg, 52, count * BLOCK_SIZE, lba * BLOCK_SIZE);
+		}
+
+		const ack = this.createDataResponse(5, lba, 0, status, tid, Buffer.alloc(0));
+		ack.writeUInt16BE(status === 0x18 ? count * BLOCK_SIZE : 0, 16);
+		this.send(ack, address);
+	}
+
+
+	/**
+	 * @returns Flags of the response - 0x18 for success, 0x01 for refused credentials, 0x02 for LBA out of range.
+	 */
+	protected checkRequest(msg: Buffer, lba: number, count: number): number {
+		if(!this.checkCredentials(msg)) {
+			return 0x01;
+		}
+
+		if(count < 1 || lba + count > this.capacity) {
+			return 0x02;
+		}
+
+		return 0x18;
+	}
+
+
+	protected checkCredentials(msg: Buffer): boolean {
+		if(!this.options.credentials) {
+			return true;
+		}
+
+		const username = msg.toString('ascii', 16, 16 + Math.min(msg.readUInt8(14), 16));
+		const password = msg.toString('ascii', 32, 32 + Math.min(msg.readUInt8(15), 16));
+
+		return username === this.options.credentials.username && password === this.options.credentials.password;
+	}
+
+
+	protected handleSetWifiConfig(msg: Buffer, address: string): void {
+		const response = this.createResponse(10, 9);
+		if(!this.checkCredentials(msg)) {
+			response.writeUInt8(1, 8);
+		} else {
+			// Payload has the same layout as query response from offset 8
+			this.wifiConfig = parseWifiConfig(Buffer.concat([Buffer.alloc(8), msg.subarray(48)]));
+		}
+
+		this.send(response, address);
+	}
+
+
+	protected handleQueryWifiConfig(address: string): void {
+		const response = this.createResponse(11, 8);
+		this.send(Buffer.concat([response, serializeWifiConfig(this.wifiConfig)]), address);
+	}
+
+
+	protected handleModeChange(msg: Buffer, address: string): void {
+		const response = this.createResponse(15, 9);
+		if(!this.checkCredentials(msg)) {
+			response.writeUInt8(1, 8);
+		} else {
+			this.wifiConfig = {...this.wifiConfig, mode: msg.readUInt8(48) === 1 ? "ap" : "station"};
+		}
+
+		this.send(response, address);
+	}
+
+
+	protected createResponse(cmd: number, length: number): Buffer {
+		const msg = Buffer.alloc(length);
+		msg.write("FC1307", 0, "ascii");
+		msg.writeUInt8(2, 6); // Direction
+		msg.writeUInt8(cmd, 7); // Command Code
+
+		return msg;
+	}
+
+
+	/**
+	 * Builds response in the layout parsed by Card.incomingReadData.
+	 */
+	protected createDataResponse(cmd: number, lba: number, lbaOffset: number, flags: number, tid: number, data: Buffer): Buffer {
+		const msg = this.createResponse(cmd, 24 + data.length);
+		msg.writeUInt32BE(lba, 8);
+		msg.writeUInt16BE(lbaOffset, 12);
+		msg.writeUInt16BE(flags, 14);
+		msg.writeUInt16BE(data.length, 16);
+		msg.writeUInt32BE(tid, 18);
+		data.copy(msg, 24);
+
+		return msg;
+	}
+
+
+	/**
+	 * Sends datagram to the client, applying configured loss, reordering and latency.
+	 */
+	protected send(msg: Buffer, address: string): void {
+		if(this.random() < (this.options.lossRate ?? 0)) {
+			return;
+		}
+
+		const latency = this.options.latency ?? {min: 0, max: 0};
+		let delay = latency.min + this.random() * (latency.max - latency.min);
+		if(this.random() < (this.options.reorderRate ?? 0)) {
+			// Delayed behind datagrams sent shortly after this one
+			delay += latency.max + 10;
+		}
+
+		const deliver = () => {
+			this.socket?.send(msg, this.options.replyPort ?? LOCAL_PORT, address, (err) => {
+				if(err) {
+					console.error(`Card simulator UDP error: ${err}`);
+				}
+			});
+		};
+
+		if(delay <= 0) {
+			deliver();
+			return;
+		}
+
+		const timer = setTimeout(() => {
+			this.pendingTimers.delete(timer);
+			deliver();
+		}, delay);
+		this.pendingTimers.add(timer);
+	}
+}
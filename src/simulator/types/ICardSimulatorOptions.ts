@@ -0,0 +1,58 @@
+import type {ICredentials} from "../../types/ICredentials.ts";
+import type {IWifiConfig} from "../../types/IWifiConfig.ts";
+
+export interface ICardSimulatorOptions {
+	/**
+	 * UDP port to listen on, default 24387 like real card.
+	 */
+	port?: number;
+
+	/**
+	 * Address to bind to, default all interfaces.
+	 */
+	address?: string;
+
+	/**
+	 * UDP port responses are sent to, default 24388 where Card listens.
+	 */
+	replyPort?: number;
+
+	/**
+	 * IP address reported in card info, default "127.0.0.1".
+	 */
+	ip?: string;
+	mac?: string;
+	type?: "SD" | "CF";
+
+	/**
+	 * When set, requests with other credentials are refused. Default accepts anything.
+	 */
+	credentials?: ICredentials;
+
+	wifiConfig?: IWifiConfig;
+
+	/**
+	 * Count of blocks per read response datagram, default 14 (whole request in one datagram).
+	 */
+	fragmentBlocks?: number;
+
+	/**
+	 * Probability (0 - 1) that outgoing datagram is dropped.
+	 */
+	lossRate?: number;
+
+	/**
+	 * Probability (0 - 1) that outgoing datagram is delayed behind the following ones.
+	 */
+	reorderRate?: number;
+
+	/**
+	 * Delay of outgoing datagrams in milliseconds, random value between min and max.
+	 */
+	latency?: {min: number, max: number};
+
+	/**
+	 * Source of randomness for loss, reordering and latency. Pass seeded generator for reproducible runs.
+	 */
+	random?: () => number;
+}
@@ -0,0 +1,311 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {Directory} from "../Directory.ts";
+import {File} from "../File.ts";
+import type {ISyncOptions} from "./types/ISyncOptions.ts";
+import type {ISyncResult} from "./types/ISyncResult.ts";
+import type {ISyncState} from "./types/ISyncState.ts";
+import {ESyncAction} from "./types/ESyncAction.ts";
+import {globToRegExp} from "../utils/globToRegExp.ts";
+
+/**
+ * FAT stores modification time with 2 seconds resolution, local file systems may round it as well.
+ */
+const MODIFICATION_TIME_TOLERANCE = 2_000;
+
+/**
+ * Suffix of files being downloaded, they are renamed once complete.
+ */
+const PARTIAL_SUFFIX = ".part";
+
+interface IPattern {
+	regExp: RegExp;
+
+	/**
+	 * Matched against path relative to the synced directory, otherwise against the name.
+	 */
+	matchPath: boolean;
+}
+
+interface IDownloadTask {
+	file: File;
+	relativePath: string;
+	localPath: string;
+}
+
+/**
+ * Mirrors directory of the card to local directory. Only new and changed files (by size and modification time)
+ * are downloaded, local modification times are set from the card.
+ */
+export class DirectorySync {
+
+	protected include: IPattern[] | null;
+	protected exclude: IPattern[];
+
+	protected previousState: ISyncState | null = null;
+	protected state: ISyncState;
+
+	protected tasks: IDownloadTask[] = [];
+
+	protected result: ISyncResult = {
+		downloadedFiles: 0,
+		downloadedBytes: 0,
+		upToDateFiles: 0,
+		deletedEntries: 0,
+		unchangedDirectories: 0,
+	};
+
+	protected filesTotal: number = 0;
+	protected bytesTotal: number = 0;
+
+	constructor(
+		protected directory: Directory,
+		protected localDir: string,
+		protected options: ISyncOptions = {},
+	) {
+		this.include = options.include ? options.include.map((pattern) => this.compilePattern(pattern)) : null;
+		this.exclude = (options.exclude ?? []).map((pattern) => this.compilePattern(pattern));
+		this.state = {
+			version: 1,
+			filter: JSON.stringify({
+				include: options.include?.map(String) ?? null,
+				exclude: options.exclude?.map(String) ?? [],
+			}),
+			directories: {},
+		};
+	}
+
+
+	public async sync(): Promise<ISyncResult> {
+		if(this.options.stateFile) {
+			this.previousState = await this.loadState(this.options.stateFile);
+		}
+
+		await this.walk(this.directory, "", this.localDir, true);
+		await this.downloadAll();
+
+		// Written only after success, directories of failed sync are reported as changed next time
+		if(this.options.stateFile) {
+			await this.saveState(this.options.stateFile);
+		}
+
+		return this.result;
+	}
+
+
+	/**
+	 * Compares directory with local one, up-to-date files are reported right away and the others are queued
+	 * for download.
+	 */
+	protected async walk(directory: Directory, relativePath: string, localPath: string, refresh: boolean = false): Promise<void> {
+		const entries = await directory.list(refresh);
+		const hash = this.hashListing(entries);
+		if(this.previousState?.directories[relativePath]?.hash === hash) {
+			this.result.unchangedDirectories++;
+		}
+		await fs.mkdir(localPath, {recursive: true});
+
+		const names = new Set<string>();
+
+		for(const entry of entries) {
+			// FAT lists "." and ".." of subdirectories
+			if(entry.name === "." || entry.name === "..") {
+				continue;
+			}
+
+			const entryPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+			const entryLocalPath = path.join(localPath, entry.name);
+			if(this.isExcluded(entryPath, entry.name)) {
+				continue;
+			}
+
+			if(entry instanceof File) {
+				if(this.include && !this.matches(this.include, entryPath, entry.name)) {
+					continue;
+				}
+
+				names.add(entry.name);
+				this.filesTotal++;
+				if(await this.isUpToDate(entry, entryLocalPath)) {
+					this.result.upToDateFiles++;
+					this.reportProgress(ESyncAction.UP_TO_DATE, entryPath);
+				} else {
+					this.bytesTotal += entry.size;
+					this.tasks.push({file: entry, relativePath: entryPath, localPath: entryLocalPath});
+				}
+			} else {
+				if(this.options.recursive === false) {
+					continue;
+				}
+
+				names.add(entry.name);
+				await this.walk(entry, entryPath, entryLocalPath);
+			}
+		}
+		this.state.directories[relativePath] = {hash};
+
+		if(this.options.deleteExtraneous) {
+			await this.deleteExtraneous(relativePath, localPath, names);
+		}
+	}
+
+
+	protected async downloadAll(): Promise<void> {
+		const queue = [...this.tasks];
+		let failed = false;
+
+		const worker = async (): Promise<void> => {
+			while(queue.length > 0 && !failed) {
+				const task = queue.shift()!;
+				try {
+					await this.download(task);
+				} catch(err) {
+					failed = true;
+					throw err;
+				}
+			}
+		};
+
+		const workers: Promise<void>[] = [];
+		for(let i = 0; i < Math.min(Math.max(1, this.options.concurrency ?? 2), queue.length); i++) {
+			workers.push(worker());
+		}
+
+		await Promise.all(workers);
+	}
+
+
+	protected async download(task: IDownloadTask): Promise<void> {
+		const partialPath = task.localPath + PARTIAL_SUFFIX;
+		await task.file.download(partialPath);
+		await fs.utimes(partialPath, task.file.modificationDate, task.file.modificationDate);
+		await fs.rename(partialPath, task.localPath);
+
+		this.result.downloadedFiles++;
+		this.result.downloadedBytes += task.file.size;
+		this.reportProgress(ESyncAction.DOWNLOADED, task.relativePath);
+	}
+
+
+	/**
+	 * Removes local entries not present in the card directory, except of excluded ones and the state file.
+	 */
+	protected async deleteExtraneous(relativePath: string, localPath: string, names: Set<string>): Promise<void> {
+		const statePath = this.options.stateFile ? path.resolve(this.options.stateFile) : null;
+
+		for(const localEntry of await fs.readdir(localPath, {withFileTypes: true})) {
+			const entryPath = relativePath ? `${relativePath}/${localEntry.name}` : localEntry.name;
+			const entryLocalPath = path.join(localPath, localEntry.name);
+			if(names.has(localEntry.name) || path.resolve(entryLocalPath) === statePath) {
+				continue;
+			}
+
+			if(this.isExcluded(entryPath, localEntry.name)) {
+				continue;
+			}
+			// Files not matching include would not be synced, so they are kept as well
+			if(!localEntry.isDirectory() && this.include && !this.matches(this.include, entryPath, localEntry.name)
+				&& !localEntry.name.endsWith(PARTIAL_SUFFIX)) {
+				continue;
+			}
+			if(localEntry.isDirectory() && this.options.recursive === false) {
+				continue;
+			}
+
+			await fs.rm(entryLocalPath, {recursive: true, force: true});
+			this.result.deletedEntries++;
+			this.reportProgress(ESyncAction.DELETED, entryPath);
+		}
+	}
+
+
+	protected async isUpToDate(file: File, localPath: string): Promise<boolean> {
+		try {
+			const stat = await fs.stat(localPath);
+			return stat.isFile()
+				&& stat.size === file.size
+				&& Math.abs(stat.mtimeMs - file.modificationDate.getTime()) < MODIFICATION_TIME_TOLERANCE;
+		} catch(err) {
+			if((err as NodeJS.ErrnoException).code === "ENOENT") {
+				return false;
+			}
+			throw err;
+		}
+	}
+
+
+	protected hashListing(entries: (Directory | File)[]): string {
+		const hash = crypto.createHash("sha1");
+		for(const entry of entries) {
+			hash.update(JSON.stringify([
+				entry.name,
+				entry instanceof File ? entry.size : -1,
+				entry.clusterNumber,
+				entry.creationDate.getTime(),
+				entry.modificationDate.getTime(),
+			]));
+		}
+
+		return hash.digest("hex");
+	}
+
+
+	protected isExcluded(relativePath: string, name: string): boolean {
+		return this.matches(this.exclude, relativePath, name);
+	}
+
+
+	protected matches(patterns: IPattern[], relativePath: string, name: string): boolean {
+		return patterns.some((pattern) => pattern.regExp.test(pattern.matchPath ? relativePath : name));
+	}
+
+
+	protected compilePattern(pattern: string | RegExp): IPattern {
+		if(typeof pattern === "string") {
+			return {regExp: globToRegExp(pattern), matchPath: pattern.includes("/")};
+		}
+
+		return {regExp: pattern, matchPath: true};
+	}
+
+
+	protected reportProgress(action: ESyncAction, relativePath: string): void {
+		this.options.onProgress?.({
+			action,
+			path: relativePath,
+			filesDone: this.result.downloadedFiles + this.result.upToDateFiles,
+			filesTotal: this.filesTotal,
+			bytesDone: this.result.downloadedBytes,
+			bytesTotal: this.bytesTotal,
+		});
+	}
+
+
+	/**
+	 * @returns State of the previous sync with the same filter or null.
+	 */
+	protected async loadState(statePath: string): Promise<ISyncState | null> {
+		let state: ISyncState;
+		try {
+			state = JSON.parse(await fs.readFile(statePath, "utf8"));
+		} catch(err) {
+			if((err as NodeJS.ErrnoException).code === "ENOENT") {
+				return null;
+			}
+			throw err;
+		}
+
+		return state.version === this.state.version && state.filter === this.state.filter ? state : null;
+	}
+
+
+	/**
+	 * Written to temporary file first, so crash during write leaves previous state intact.
+	 */
+	protected async saveState(statePath: string): Promise<void> {
+		const temporaryPath = `${statePath}.tmp`;
+		await fs.writeFile(temporaryPath, JSON.stringify(this.state, null, "\t"));
+		await fs.rename(temporaryPath, statePath);
+	}
+}
@@ -0,0 +1,13 @@
+export enum ESyncAction {
+	DOWNLOADED = 'DOWNLOADED',
+
+	/**
+	 * Local file has the same size and modification time as the file on the card.
+	 */
+	UP_TO_DATE = 'UP_TO_DATE',
+
+	/**
+	 * Local file or directory which does not exist on the card was removed (deleteExtraneous option).
+	 */
+	DELETED = 'DELETED',
+}
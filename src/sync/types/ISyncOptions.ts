@@ -0,0 +1,39 @@
+import type {ISyncProgress} from "./ISyncProgress.ts";
+
+export interface ISyncOptions {
+	/**
+	 * Sync subdirectories as well, default true.
+	 */
+	recursive?: boolean;
+
+	/**
+	 * Only files matching at least one of patterns are synced, default all. Glob patterns containing "/" and RegExps
+	 * are matched against path relative to the synced directory, other globs against the name. Glob patterns
+	 * support `*`, `**` and `?` and are case-insensitive.
+	 */
+	include?: (string | RegExp)[];
+
+	/**
+	 * Files and directories matching any of patterns are neither synced nor deleted.
+	 */
+	exclude?: (string | RegExp)[];
+
+	/**
+	 * Remove local files and directories which do not exist on the card, default false.
+	 */
+	deleteExtraneous?: boolean;
+
+	/**
+	 * Count of files downloaded at once, default 2.
+	 */
+	concurrency?: number;
+
+	/**
+	 * Path of JSON file remembering listings of synced directories, unchanged ones are counted in the result.
+	 * It does not save listing of subtrees: FAT updates no timestamp of a directory when files deep in it change,
+	 * so every directory is listed and every file compared with its local copy on each sync. Default none.
+	 */
+	stateFile?: string;
+
+	onProgress?: (progress: ISyncProgress) => void;
+}
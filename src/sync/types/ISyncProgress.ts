@@ -0,0 +1,22 @@
+import type {ESyncAction} from "./ESyncAction.ts";
+
+export interface ISyncProgress {
+	action: ESyncAction;
+
+	/**
+	 * Path relative to the synced directory, separated by "/".
+	 */
+	path: string;
+
+	/**
+	 * Files checked so far, downloaded or up to date.
+	 */
+	filesDone: number;
+	filesTotal: number;
+
+	/**
+	 * Bytes of files to download, up-to-date files are not counted.
+	 */
+	bytesDone: number;
+	bytesTotal: number;
+}
@@ -0,0 +1,11 @@
+export interface ISyncResult {
+	downloadedFiles: number;
+	downloadedBytes: number;
+	upToDateFiles: number;
+	deletedEntries: number;
+
+	/**
+	 * Directories whose listing did not change since the sync recorded in the state file.
+	 */
+	unchangedDirectories: number;
+}
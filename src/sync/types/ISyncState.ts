@@ -0,0 +1,24 @@
+/**
+ * Content of the state file of DirectorySync.
+ */
+export interface ISyncState {
+	version: 1;
+
+	/**
+	 * Include and exclude patterns of the sync, state of different filter is not used.
+	 */
+	filter: string;
+
+	/**
+	 * Completely synced directories by path relative to the synced directory, "" is the synced directory itself.
+	 */
+	directories: {[path: string]: ISyncedDirectory};
+}
+
+export interface ISyncedDirectory {
+	/**
+	 * Hash of names, sizes, clusters and times of all entries. Hosts do not update modification time of the directory
+	 * itself, but any added, removed or rewritten entry changes the hash.
+	 */
+	hash: string;
+}
@@ -0,0 +1,18 @@
+export enum EErrorCode {
+	TIMEOUT = 'TIMEOUT',
+	AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
+	MALFORMED_PACKET = 'MALFORMED_PACKET',
+	LBA_OUT_OF_RANGE = 'LBA_OUT_OF_RANGE',
+	COMMAND_FAILED = 'COMMAND_FAILED',
+	PATH_NOT_FOUND = 'PATH_NOT_FOUND',
+	FILE_ALREADY_EXISTS = 'FILE_ALREADY_EXISTS',
+	DIRECTORY_NOT_EMPTY = 'DIRECTORY_NOT_EMPTY',
+	NOT_ENOUGH_SPACE = 'NOT_ENOUGH_SPACE',
+	FILE_SYSTEM_CORRUPTED = 'FILE_SYSTEM_CORRUPTED',
+	INVALID_PARTITION_TABLE = 'INVALID_PARTITION_TABLE',
+	UNSUPPORTED_FILE_SYSTEM = 'UNSUPPORTED_FILE_SYSTEM',
+	UNSUPPORTED_OPERATION = 'UNSUPPORTED_OPERATION',
+	IMAGE_MANIFEST_MISMATCH = 'IMAGE_MANIFEST_MISMATCH',
+	VFS_OPERATION_FAILED = 'VFS_OPERATION_FAILED',
+	INVALID_ARGUMENT = 'INVALID_ARGUMENT',
+}
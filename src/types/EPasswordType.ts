@@ -0,0 +1,12 @@
+export enum EPasswordType {
+	/**
+	 * Card accepts requests with any credentials.
+	 */
+	NONE = 'NONE',
+
+	/**
+	 * Card checks username and password of every request.
+	 */
+	PASSWORD = 'PASSWORD',
+	UNKNOWN = 'UNKNOWN',
+}
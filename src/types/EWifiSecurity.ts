@@ -0,0 +1,8 @@
+export enum EWifiSecurity {
+	OPEN = 'OPEN',
+	WEP = 'WEP',
+	WPA_PSK = 'WPA_PSK',
+	WPA2_PSK = 'WPA2_PSK',
+	WPA_WPA2_PSK = 'WPA_WPA2_PSK',
+	UNKNOWN = 'UNKNOWN',
+}
@@ -0,0 +1,34 @@
+import type {INewDataNotification} from "./INewDataNotification.ts";
+
+/**
+ * Device addressed by blocks, partition and file system layers work on top of it. Implemented by Card
+ * and by FileBlockDevice for disk images.
+ */
+export interface IBlockDevice {
+	/**
+	 * Size of block in bytes. File system adapters expect 512 bytes.
+	 */
+	readonly blockSize: number;
+
+	/**
+	 * Total count of blocks of the device.
+	 */
+	getBlockCount(): Promise<number>;
+
+	/**
+	 * Reads any number of consecutive blocks.
+	 */
+	readBlocks(LBA_start: number, count: number): Promise<Buffer>;
+
+	/**
+	 * Writes consecutive blocks, data length must be multiple of block size.
+	 */
+	writeBlocks(LBA_start: number, data: Buffer): Promise<void>;
+
+	/**
+	 * Only devices which can be modified by someone else (eg. camera with the card) report changes.
+	 */
+	subscribeForNewData?(callback: (notification: INewDataNotification) => void): void;
+
+	unsubscribeForNewData?(callback: (notification: INewDataNotification) => void): void;
+}
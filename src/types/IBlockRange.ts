@@ -0,0 +1,4 @@
+export interface IBlockRange {
+	LBA_start: number;
+	count: number;
+}
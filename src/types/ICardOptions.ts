@@ -0,0 +1,13 @@
+import type {ICredentials} from "./ICredentials.ts";
+
+export interface ICardOptions {
+	/**
+	 * Credentials sent with every request, defaults to admin/admin set by firmware.
+	 */
+	credentials?: ICredentials;
+
+	/**
+	 * UDP port the card listens on, defaults to 24387. Useful for CardSimulator running on other port.
+	 */
+	port?: number;
+}
@@ -0,0 +1,11 @@
+export interface ICardRegistryOptions {
+	/**
+	 * Card is offline after this many discovery intervals without reply, default 3.
+	 */
+	missedReplies?: number;
+
+	/**
+	 * Labels of cards by MAC address, eg. {"aa:bb:cc:dd:ee:ff": "camera-a"}.
+	 */
+	labels?: {[mac: string]: string};
+}
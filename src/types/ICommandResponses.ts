@@ -0,0 +1,33 @@
+import type {IWifiConfig} from "./IWifiConfig.ts";
+import type {IWifiNetwork} from "./IWifiNetwork.ts";
+import type {EPasswordType} from "./EPasswordType.ts";
+
+/**
+ * Responses of Wi-Fi commands by command code.
+ */
+export interface ICommandResponses {
+	/**
+	 * Set Wi-Fi info, acknowledgement only.
+	 */
+	10: void;
+
+	/**
+	 * Query Wi-Fi info.
+	 */
+	11: IWifiConfig;
+
+	/**
+	 * Online Wi-Fi mode change, acknowledgement only.
+	 */
+	15: void;
+
+	/**
+	 * Scan SSID.
+	 */
+	16: IWifiNetwork[];
+
+	/**
+	 * Get password type.
+	 */
+	17: EPasswordType;
+}
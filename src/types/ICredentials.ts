@@ -0,0 +1,11 @@
+export interface ICredentials {
+	/**
+	 * At most 16 ASCII characters.
+	 */
+	username: string;
+
+	/**
+	 * At most 16 ASCII characters.
+	 */
+	password: string;
+}
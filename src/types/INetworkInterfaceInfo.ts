@@ -0,0 +1,16 @@
+/**
+ * IPv4 address of local network interface.
+ */
+export interface INetworkInterfaceInfo {
+	/**
+	 * Name of the interface, eg. "eth0" or "wlan0".
+	 */
+	name: string;
+	address: string;
+	netmask: string;
+
+	/**
+	 * Directed broadcast address of the subnet, eg. "192.168.0.255".
+	 */
+	broadcast: string;
+}
@@ -0,0 +1,12 @@
+export interface INewDataNotification {
+	/**
+	 * First block written by the card host (camera), 0 when card does not report it.
+	 */
+	LBA_start: number;
+
+	/**
+	 * Count of written blocks, 0 when card does not report it.
+	 */
+	count: number;
+	receivedAt: Date;
+}
@@ -0,0 +1,18 @@
+import type {Card} from "../Card.ts";
+
+export interface IRegisteredCard {
+	card: Card;
+
+	/**
+	 * Lowercase MAC address, identity of the card.
+	 */
+	mac: string;
+	label: string | null;
+	online: boolean;
+
+	/**
+	 * Local interface the card was last seen on, null for cards behind router.
+	 */
+	networkInterface: string | null;
+	lastSeenAt: Date;
+}
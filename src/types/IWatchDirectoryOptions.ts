@@ -0,0 +1,14 @@
+import type {IWatchStateStore} from "./IWatchStateStore.ts";
+
+export interface IWatchDirectoryOptions {
+	/**
+	 * Watch subdirectories as well, including those created while watching. Default false.
+	 */
+	recursive?: boolean;
+
+	/**
+	 * Keeps known files across restarts. On start, changes since the saved state are reported as new, modified
+	 * and removed files. Without it, everything present at start is considered already known.
+	 */
+	stateStore?: IWatchStateStore;
+}
@@ -0,0 +1,21 @@
+/**
+ * Snapshot of files known to WatchDirectory, keyed by path relative to the watched directory.
+ */
+export interface IWatchState {
+	version: 1;
+	recursive: boolean;
+	files: {[path: string]: IWatchStateEntry};
+	directories: {[path: string]: IWatchStateEntry};
+}
+
+export interface IWatchStateEntry {
+	name: string;
+	size: number;
+	clusterNumber: number;
+
+	/**
+	 * Times in ms.
+	 */
+	creationTime: number;
+	modificationTime: number;
+}
@@ -0,0 +1,13 @@
+import type {IWatchState} from "./IWatchState.ts";
+
+/**
+ * Persists state of WatchDirectory, so changes made while the watcher was not running are reported after restart.
+ */
+export interface IWatchStateStore {
+	/**
+	 * @returns Saved state or null when nothing was saved yet.
+	 */
+	load(): Promise<IWatchState | null>;
+
+	save(state: IWatchState): Promise<void>;
+}
@@ -0,0 +1,9 @@
+export interface IWifiConfig {
+	ssid: string;
+	password: string;
+
+	/**
+	 * "ap" - card creates its own network, "station" - card connects to the network with given SSID.
+	 */
+	mode: "ap" | "station";
+}
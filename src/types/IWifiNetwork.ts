@@ -0,0 +1,12 @@
+import type {EWifiSecurity} from "./EWifiSecurity.ts";
+
+export interface IWifiNetwork {
+	ssid: string;
+
+	/**
+	 * Signal strength in dBm.
+	 */
+	rssi: number;
+	channel: number;
+	security: EWifiSecurity;
+}
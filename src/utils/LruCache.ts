@@ -0,0 +1,55 @@
+/**
+ * Simple least recently used cache, relies on Map keeping insertion order.
+ */
+export class LruCache<K, V> {
+
+	protected items: Map<K, V> = new Map();
+
+	constructor(
+		protected capacity: number,
+	) {
+	}
+
+
+	get size(): number {
+		return this.items.size;
+	}
+
+
+	public get(key: K): V | undefined {
+		const value = this.items.get(key);
+		if(value !== undefined) {
+			// Move to the end as the most recently used
+			this.items.delete(key);
+			this.items.set(key, value);
+		}
+
+		return value;
+	}
+
+
+	public has(key: K): boolean {
+		return this.items.has(key);
+	}
+
+
+	public set(key: K, value: V): void {
+		this.items.delete(key);
+		this.items.set(key, value);
+
+		while(this.items.size > this.capacity) {
+			const oldest = this.items.keys().next().value as K;
+			this.items.delete(oldest);
+		}
+	}
+
+
+	public delete(key: K): void {
+		this.items.delete(key);
+	}
+
+
+	public clear(): void {
+		this.items.clear();
+	}
+}
@@ -0,0 +1,23 @@
+const CRC32_TABLE: Uint32Array = (() => {
+	const table = new Uint32Array(256);
+	for(let n = 0; n < 256; n++) {
+		let c = n;
+		for(let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * Standard CRC-32 (IEEE 802.3, reflected polynomial 0xEDB88320) as used by GPT headers and partition entry arrays.
+ */
+export const crc32 = (data: Uint8Array): number => {
+	let crc = 0xFFFFFFFF;
+	for(let i = 0; i < data.length; i++) {
+		crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+	}
+
+	return (crc ^ 0xFFFFFFFF) >>> 0;
+}
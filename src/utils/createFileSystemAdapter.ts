@@ -0,0 +1,24 @@
+import type {IBlockDevice} from "../types/IBlockDevice.ts";
+import type {IFileSystemAdapter} from "../fs/types/IFileSystemAdapter.ts";
+import type {IPartitionInfo} from "../fs/types/IPartitionInfo.ts";
+import {FAT32Adapter} from "../fs/FAT32Adapter.ts";
+import {ExFATAdapter} from "../fs/ExFATAdapter.ts";
+import {EFileSystems} from "../fs/types/EFileSystems.ts";
+import {UnsupportedFileSystemError} from "../fs/errors/UnsupportedFileSystemError.ts";
+
+/**
+ * Creates file system adapter matching the type of the partition.
+ * @throws {UnsupportedFileSystemError} When there is no adapter for the file system.
+ */
+export const createFileSystemAdapter = (device: IBlockDevice, partitionInfo: IPartitionInfo): IFileSystemAdapter => {
+	switch(partitionInfo.type) {
+		case EFileSystems.FAT12:
+		case EFileSystems.FAT16:
+		case EFileSystems.FAT32:
+			return new FAT32Adapter(device, partitionInfo);
+		case EFileSystems.EXFAT:
+			return new ExFATAdapter(device, partitionInfo);
+		default:
+			throw new UnsupportedFileSystemError(partitionInfo.type);
+	}
+}
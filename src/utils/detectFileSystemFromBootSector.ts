@@ -0,0 +1,38 @@
+import {EFileSystems} from "../fs/types/EFileSystems.ts";
+
+/**
+ * Detects file system from the first sector of partition by its OEM name or file system type string.
+ * Partition type in MBR or GPT is not always enough, eg. 0x07 and Basic Data GUID are shared by NTFS and exFAT.
+ *
+ * @returns Detected file system or UNKNOWN when boot sector is not recognised.
+ */
+export const detectFileSystemFromBootSector = (bootSector: Buffer): EFileSystems => {
+	/**
+	 * Offset   Size (bytes)    Field
+	 * 3        8               OEM name ("EXFAT   ", "NTFS    " or arbitrary for FAT)
+	 * 54       8               BS_FilSysType for FAT12/16 ("FAT12   ", "FAT16   " or "FAT     ")
+	 * 82       8               BS_FilSysType for FAT32 ("FAT32   ")
+	 */
+
+	const oemName = bootSector.toString('ascii', 3, 11);
+	if(oemName === "EXFAT   ") {
+		return EFileSystems.EXFAT;
+	}
+	if(oemName === "NTFS    ") {
+		return EFileSystems.NTFS;
+	}
+
+	if(bootSector.toString('ascii', 82, 90) === "FAT32   ") {
+		return EFileSystems.FAT32;
+	}
+
+	switch(bootSector.toString('ascii', 54, 62)) {
+		case "FAT12   ":
+			return EFileSystems.FAT12;
+		case "FAT16   ":
+		case "FAT     ":
+			return EFileSystems.FAT16;
+	}
+
+	return EFileSystems.UNKNOWN;
+}
@@ -0,0 +1,37 @@
+import os from "node:os";
+import type {INetworkInterfaceInfo} from "../types/INetworkInterfaceInfo.ts";
+
+const ipToNumber = (ip: string): number => ip.split(".").reduce((number, octet) => (number * 256) + Number(octet), 0);
+
+const numberToIp = (number: number): string => [24, 16, 8, 0].map((shift) => (number >>> shift) & 0xFF).join(".");
+
+/**
+ * Lists IPv4 addresses of non-loopback interfaces with broadcast address of their subnet.
+ */
+export const getNetworkInterfaces = (): INetworkInterfaceInfo[] => {
+	const interfaces: INetworkInterfaceInfo[] = [];
+	for(const [name, addresses] of Object.entries(os.networkInterfaces())) {
+		for(const address of addresses ?? []) {
+			if(address.family !== "IPv4" || address.internal) {
+				continue;
+			}
+
+			const broadcast = (ipToNumber(address.address) | ~ipToNumber(address.netmask)) >>> 0;
+			interfaces.push({name, address: address.address, netmask: address.netmask, broadcast: numberToIp(broadcast)});
+		}
+	}
+
+	return interfaces;
+}
+
+
+/**
+ * Finds interface whose subnet contains the IP address.
+ */
+export const findNetworkInterface = (ip: string, interfaces: INetworkInterfaceInfo[]): INetworkInterfaceInfo | null => {
+	const number = ipToNumber(ip);
+	return interfaces.find((networkInterface) => {
+		const mask = ipToNumber(networkInterface.netmask);
+		return ((number & mask) >>> 0) === ((ipToNumber(networkInterface.address) & mask) >>> 0);
+	}) ?? null;
+}
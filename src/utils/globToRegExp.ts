@@ -0,0 +1,28 @@
+/**
+ * Converts glob pattern to case-insensitive RegExp matching whole string. `**` matches across "/", `*` and `?`
+ * match within one path segment.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+	let source = "";
+	for(let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if(char === "*" && pattern[i + 1] === "*") {
+			// "**/" matches zero or more directories
+			if(pattern[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i++;
+			}
+		} else if(char === "*") {
+			source += "[^/]*";
+		} else if(char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`, "i");
+}
@@ -0,0 +1,21 @@
+import type {IBlockDevice} from "../types/IBlockDevice.ts";
+import type {IFileSystemAdapter} from "../fs/types/IFileSystemAdapter.ts";
+import {MBRUtility} from "../fs/MBRUtility.ts";
+import {createFileSystemAdapter} from "./createFileSystemAdapter.ts";
+import {PathNotFoundError} from "../fs/errors/PathNotFoundError.ts";
+
+/**
+ * Reads partition table of the device and creates file system adapter for the partition.
+ * Works the same for Card and for disk images opened by FileBlockDevice.
+ *
+ * @param device Card or other block device
+ * @param partition Index of the partition in the list returned by MBRUtility.getPartitions
+ */
+export const openFileSystem = async (device: IBlockDevice, partition: number = 0): Promise<IFileSystemAdapter> => {
+	const partitions = await new MBRUtility(device).getPartitions();
+	if(partition < 0 || partitions.length <= partition) {
+		throw new PathNotFoundError(`partition ${partition}`, `${partition} partition does not exist`);
+	}
+
+	return createFileSystemAdapter(device, partitions[partition]);
+}
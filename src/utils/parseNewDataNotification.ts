@@ -0,0 +1,21 @@
+import type {INewDataNotification} from "../types/INewDataNotification.ts";
+
+export const parseNewDataNotification = (msg: Buffer): INewDataNotification => {
+	/**
+	 * Offset   Size (bytes)    Field         Format    Description
+	 * 0        6               header        -         Header (b"FC1307")
+	 * 6        1               direction     B         Direction (1 = to card, 2 = from card)
+	 * 7        1               cmd           B         Command code (9 = new data in card)
+	 * 8        4               lba           I         First written block (optional)
+	 * 12       2               xfer_count    H         Count of written blocks (optional)
+	 */
+
+	const lbaOffset = 8;
+	const countOffset = 12;
+
+	return {
+		LBA_start: msg.length >= lbaOffset + 4 ? msg.readUInt32BE(lbaOffset) : 0,
+		count: msg.length >= countOffset + 2 ? msg.readUInt16BE(countOffset) : 0,
+		receivedAt: new Date(),
+	};
+}
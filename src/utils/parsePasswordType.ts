@@ -0,0 +1,20 @@
+import {EPasswordType} from "../types/EPasswordType.ts";
+
+export const parsePasswordType = (msg: Buffer): EPasswordType => {
+	/**
+	 * Offset   Size (bytes)    Field         Format    Description
+	 * 0        6               header        -         Header (b"FC1307")
+	 * 6        1               direction     B         Direction (1 = to card, 2 = from card)
+	 * 7        1               cmd           B         Command code (17 = get pwd type)
+	 * 8        1               pwd_type      B         0 = no password, 1 = password required
+	 */
+
+	switch(msg.at(8)) {
+		case 0:
+			return EPasswordType.NONE;
+		case 1:
+			return EPasswordType.PASSWORD;
+		default:
+			return EPasswordType.UNKNOWN;
+	}
+}
@@ -0,0 +1,29 @@
+/**
+ * Parses HTTP Range header of a single byte range.
+ *
+ * @returns Inclusive range within the size, null when the header is missing or not supported (multiple ranges,
+ * other units), so whole content should be sent, or "unsatisfiable" when the range is outside the content.
+ */
+export const parseRangeHeader = (header: string | undefined, size: number): {start: number, end: number} | null | "unsatisfiable" => {
+	const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+	if(!match || (match[1] === "" && match[2] === "")) {
+		return null;
+	}
+
+	let start: number;
+	let end: number;
+	if(match[1] === "") {
+		// Suffix range, last N bytes
+		start = Math.max(0, size - Number(match[2]));
+		end = size - 1;
+	} else {
+		start = Number(match[1]);
+		end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+	}
+
+	if(start >= size || start > end) {
+		return "unsatisfiable";
+	}
+
+	return {start, end};
+}
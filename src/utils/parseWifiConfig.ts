@@ -0,0 +1,30 @@
+import type {IWifiConfig} from "../types/IWifiConfig.ts";
+
+export const parseWifiConfig = (msg: Buffer): IWifiConfig => {
+	/**
+	 * Offset   Size (bytes)    Field         Format    Description
+	 * 0        6               header        -         Header (b"FC1307")
+	 * 6        1               direction     B         Direction (1 = to card, 2 = from card)
+	 * 7        1               cmd           B         Command code (11 = query wifi info)
+	 * 8        1               mode          B         Wi-Fi mode (1 = AP, 0 = station)
+	 * 9        1               ssid_length   B         Length of SSID
+	 * 10       32              ssid          -         SSID (UTF-8, zero-padded to 32 bytes)
+	 * 42       1               pwd_length    B         Length of Wi-Fi password
+	 * 43       64              password      -         Wi-Fi password (ASCII, zero-padded to 64 bytes)
+	 */
+
+	const modeOffset = 8;
+	const ssidLengthOffset = 9;
+	const ssidOffset = 10;
+	const passwordLengthOffset = 42;
+	const passwordOffset = 43;
+
+	const ssidLength = Math.min(msg.at(ssidLengthOffset) ?? 0, 32);
+	const passwordLength = Math.min(msg.at(passwordLengthOffset) ?? 0, 64);
+
+	return {
+		ssid: msg.toString('utf8', ssidOffset, ssidOffset + ssidLength),
+		password: msg.toString('ascii', passwordOffset, passwordOffset + passwordLength),
+		mode: msg.at(modeOffset) === 1 ? "ap" : "station",
+	};
+}
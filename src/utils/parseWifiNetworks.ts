@@ -0,0 +1,52 @@
+import type {IWifiNetwork} from "../types/IWifiNetwork.ts";
+import {EWifiSecurity} from "../types/EWifiSecurity.ts";
+
+export const parseWifiNetworks = (msg: Buffer): IWifiNetwork[] => {
+	/**
+	 * Offset   Size (bytes)    Field         Format    Description
+	 * 0        6               header        -         Header (b"FC1307")
+	 * 6        1               direction     B         Direction (1 = to card, 2 = from card)
+	 * 7        1               cmd           B         Command code (16 = scan ssid)
+	 * 8        1               count         B         Number of network records
+	 * 9        N * 36          networks      -         Network records
+	 *
+	 * Network record:
+	 * 0        1               ssid_length   B         Length of SSID
+	 * 1        32              ssid          -         SSID (UTF-8, zero-padded to 32 bytes)
+	 * 33       1               rssi          b         Signal strength in dBm (signed)
+	 * 34       1               channel       B         Channel number
+	 * 35       1               security      B         0 = open, 1 = WEP, 2 = WPA, 3 = WPA2, 4 = WPA/WPA2
+	 */
+
+	const countOffset = 8;
+	const recordsOffset = 9;
+	const recordSize = 36;
+
+	const securityTypes: EWifiSecurity[] = [
+		EWifiSecurity.OPEN,
+		EWifiSecurity.WEP,
+		EWifiSecurity.WPA_PSK,
+		EWifiSecurity.WPA2_PSK,
+		EWifiSecurity.WPA_WPA2_PSK,
+	];
+
+	const count = msg.at(countOffset) ?? 0;
+	const networks: IWifiNetwork[] = [];
+	for(let index = 0; index < count; index++) {
+		const offset = recordsOffset + index * recordSize;
+		if(offset + recordSize > msg.length) {
+			console.warn(`Scan response announces ${count} networks, but contains only ${index}.`);
+			break;
+		}
+
+		const ssidLength = Math.min(msg.readUInt8(offset), 32);
+		networks.push({
+			ssid: msg.toString('utf8', offset + 1, offset + 1 + ssidLength),
+			rssi: msg.readInt8(offset + 33),
+			channel: msg.readUInt8(offset + 34),
+			security: securityTypes[msg.readUInt8(offset + 35)] ?? EWifiSecurity.UNKNOWN,
+		});
+	}
+
+	return networks;
+}
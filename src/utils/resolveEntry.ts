@@ -0,0 +1,27 @@
+import type {IFileSystemAdapter} from "../fs/types/IFileSystemAdapter.ts";
+import type {Directory} from "../Directory.ts";
+import type {File} from "../File.ts";
+import {FileNotFoundError} from "../fs/errors/FileNotFoundError.ts";
+
+/**
+ * Finds file or directory by its full path.
+ * @throws {DirectoryNotFoundError} When there is neither file nor directory of the path.
+ */
+export const resolveEntry = async (fsAdapter: IFileSystemAdapter, path: string): Promise<Directory | File> => {
+	const trimmed = path.replace(/\/+$/, "");
+	const separator = trimmed.lastIndexOf("/");
+	if(separator < 0 || trimmed === "") {
+		return fsAdapter.getDirectory("/");
+	}
+
+	const parent = await fsAdapter.getDirectory(trimmed.substring(0, separator) || "/");
+	const name = trimmed.substring(separator + 1);
+	try {
+		return await parent.getFile(name);
+	} catch(err) {
+		if(!(err instanceof FileNotFoundError)) {
+			throw err;
+		}
+		return parent.getDirectory(name);
+	}
+}
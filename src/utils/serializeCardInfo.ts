@@ -0,0 +1,24 @@
+import type {ICardInfo} from "../types/ICardInfo.ts";
+
+/**
+ * Builds card info response (command 1), inverse of parseCardInfo. Used by CardSimulator.
+ */
+export const serializeCardInfo = (info: ICardInfo): Buffer => {
+	const subver = Buffer.from(info.subver, 'ascii');
+	const msg = Buffer.alloc(43 + subver.length);
+
+	msg.write("FC1307", 0, "ascii");
+	msg.writeUInt8(2, 6); // Direction
+	msg.writeUInt8(1, 7); // Command Code
+
+	info.ip.split('.').forEach((part, index) => msg.writeUInt8(Number(part) & 0xFF, 14 + index));
+	info.mac.split(':').forEach((part, index) => msg.writeUInt8(parseInt(part, 16) & 0xFF, 18 + index));
+	msg.write(info.type, 24, 2, "ascii");
+	msg.write(`Ver ${info.version}`, 26, 11, "ascii");
+	msg.writeUInt32BE(info.capacity, 37);
+	msg.writeUInt8(info.apMode ? 1 : 0, 41);
+	msg.writeUInt8(subver.length, 42);
+	subver.copy(msg, 43);
+
+	return msg;
+}
@@ -0,0 +1,36 @@
+import type {IWifiConfig} from "../types/IWifiConfig.ts";
+import {InvalidArgumentError} from "../errors/InvalidArgumentError.ts";
+
+/**
+ * Serializes payload of set wifi info request (command 10), layout is the same as query wifi info response
+ * from offset 8.
+ */
+export const serializeWifiConfig = (config: IWifiConfig): Buffer => {
+	/**
+	 * Offset   Size (bytes)    Field         Format    Description
+	 * 0        1               mode          B         Wi-Fi mode (1 = AP, 0 = station)
+	 * 1        1               ssid_length   B         Length of SSID
+	 * 2        32              ssid          -         SSID (UTF-8, zero-padded to 32 bytes)
+	 * 34       1               pwd_length    B         Length of Wi-Fi password
+	 * 35       64              password      -         Wi-Fi password (ASCII, zero-padded to 64 bytes)
+	 */
+
+	const ssid = Buffer.from(config.ssid, 'utf8');
+	const password = Buffer.from(config.password, 'ascii');
+
+	if(ssid.length < 1 || ssid.length > 32) {
+		throw new InvalidArgumentError(`SSID must have 1 to 32 bytes, got ${ssid.length}`);
+	}
+	if(password.length > 64) {
+		throw new InvalidArgumentError(`Wi-Fi password must have at most 64 characters, got ${password.length}`);
+	}
+
+	const payload = Buffer.alloc(99);
+	payload.writeUInt8(config.mode === "ap" ? 1 : 0, 0);
+	payload.writeUInt8(ssid.length, 1);
+	ssid.copy(payload, 2);
+	payload.writeUInt8(password.length, 34);
+	password.copy(payload, 35);
+
+	return payload;
+}
@@ -0,0 +1,268 @@
+import type {IFileSystemAdapter} from "../fs/types/IFileSystemAdapter.ts";
+import type {Directory} from "../Directory.ts";
+import {File} from "../File.ts";
+import type {IVfsOptions} from "./types/IVfsOptions.ts";
+import type {IVfsStat} from "./types/IVfsStat.ts";
+import {EErrno} from "./types/EErrno.ts";
+import {VfsError} from "./errors/VfsError.ts";
+import {WifiSdcfError} from "../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../types/EErrorCode.ts";
+
+const ROOT_INO = 1;
+
+/**
+ * Inodes of entries without cluster (empty files) are allocated above any cluster number.
+ */
+const FIRST_SYNTHETIC_INO = 2 ** 32;
+
+/**
+ * Bits of open flags asking for write access (O_WRONLY, O_RDWR).
+ */
+const WRITE_ACCESS_FLAGS = 0b11;
+
+interface ICachedEntry {
+	entry: Directory | File;
+	expiresAt: number;
+}
+
+interface ICachedListing {
+	entries: (Directory | File)[];
+	expiresAt: number;
+}
+
+/**
+ * Operations of read-only userspace file system (getattr, readdir, open, read, release) for FUSE bindings.
+ * Paths are absolute within the file system, eg. "/DCIM/100MEDIA". Operations throw VfsError with errno,
+ * which the binding passes to the kernel.
+ *
+ * Inode number is the first cluster of the entry, root directory is 1.
+ */
+export class ReadOnlyVirtualFileSystem {
+
+	protected attributeTtl: number;
+
+	protected entries: Map<string, ICachedEntry> = new Map();
+	protected listings: Map<string, ICachedListing> = new Map();
+
+	protected syntheticInodes: Map<string, number> = new Map();
+	protected nextSyntheticIno: number = FIRST_SYNTHETIC_INO;
+
+	protected openFiles: Map<number, File> = new Map();
+	protected nextFd: number = 1;
+
+	constructor(
+		protected fsAdapter: IFileSystemAdapter,
+		protected options: IVfsOptions = {},
+	) {
+		this.attributeTtl = options.attributeTtl ?? 1_000;
+	}
+
+
+	/**
+	 * @throws {VfsError} ENOENT when the path does not exist.
+	 */
+	public async getattr(path: string): Promise<IVfsStat> {
+		const normalized = this.normalizePath(path);
+		return this.toStat(normalized, await this.lookup(normalized));
+	}
+
+
+	/**
+	 * @returns Names of entries in the directory, without "." and "..".
+	 * @throws {VfsError} ENOENT when the path does not exist, ENOTDIR when it is a file.
+	 */
+	public async readdir(path: string): Promise<string[]> {
+		const normalized = this.normalizePath(path);
+		const directory = await this.lookup(normalized);
+		if(directory instanceof File) {
+			throw new VfsError(EErrno.ENOTDIR, normalized);
+		}
+
+		return (await this.list(normalized, directory)).map((entry) => entry.name);
+	}
+
+
+	/**
+	 * @param flags Open flags, opening for write is refused.
+	 * @returns File descriptor for read and release.
+	 * @throws {VfsError} EROFS when write access is requested, EISDIR for directory.
+	 */
+	public async open(path: string, flags: number = 0): Promise<number> {
+		const normalized = this.normalizePath(path);
+		if(flags & WRITE_ACCESS_FLAGS) {
+			throw new VfsError(EErrno.EROFS, normalized);
+		}
+
+		const file = await this.lookup(normalized);
+		if(!(file instanceof File)) {
+			throw new VfsError(EErrno.EISDIR, normalized);
+		}
+
+		const fd = this.nextFd++;
+		this.openFiles.set(fd, file);
+
+		return fd;
+	}
+
+
+	/**
+	 * Reads only the requested range from the card. Open file keeps size and clusters from open, even when
+	 * the file is changed later.
+	 *
+	 * @returns Data of the range, shorter at the end of the file.
+	 * @throws {VfsError} EBADF when the descriptor is not open.
+	 */
+	public async read(fd: number, length: number, position: number): Promise<Buffer> {
+		const file = this.openFiles.get(fd);
+		if(!file) {
+			throw new VfsError(EErrno.EBADF, `fd ${fd}`);
+		}
+		if(position >= file.size || length <= 0) {
+			return Buffer.alloc(0);
+		}
+
+		return this.wrapErrors(`fd ${fd}`, () => file.readRange(position, Math.min(length, file.size - position)));
+	}
+
+
+	/**
+	 * @throws {VfsError} EBADF when the descriptor is not open.
+	 */
+	public async release(fd: number): Promise<void> {
+		if(!this.openFiles.delete(fd)) {
+			throw new VfsError(EErrno.EBADF, `fd ${fd}`);
+		}
+	}
+
+
+	/**
+	 * Drops cached attributes and listings, eg. when the card reports new data.
+	 */
+	public invalidate(): void {
+		this.entries.clear();
+		this.listings.clear();
+	}
+
+
+	protected async lookup(path: string): Promise<Directory | File> {
+		const cached = this.entries.get(path);
+		if(cached && cached.expiresAt > Date.now()) {
+			return cached.entry;
+		}
+
+		let entry: Directory | File;
+		if(path === "/") {
+			entry = await this.wrapErrors(path, () => this.fsAdapter.getDirectory("/"));
+		} else {
+			const separator = path.lastIndexOf("/");
+			const parentPath = path.substring(0, separator) || "/";
+			const parent = await this.lookup(parentPath);
+			if(parent instanceof File) {
+				throw new VfsError(EErrno.ENOTDIR, parentPath);
+			}
+
+			const name = path.substring(separator + 1);
+			const found = (await this.list(parentPath, parent)).find((child) => this.fsAdapter.compareNames(child.name, name));
+			if(!found) {
+				throw new VfsError(EErrno.ENOENT, path);
+			}
+			entry = found;
+		}
+
+		this.entries.set(path, {entry, expiresAt: Date.now() + this.attributeTtl});
+		return entry;
+	}
+
+
+	/**
+	 * Lists the directory and caches attributes of its entries, so following getattr calls are not sent to the card.
+	 */
+	protected async list(path: string, directory: Directory): Promise<(Directory | File)[]> {
+		const cached = this.listings.get(path);
+		if(cached && cached.expiresAt > Date.now()) {
+			return cached.entries;
+		}
+
+		const entries = (await this.wrapErrors(path, () => directory.list(cached !== undefined)))
+			.filter((entry) => entry.name !== "." && entry.name !== "..");
+		const expiresAt = Date.now() + this.attributeTtl;
+		this.listings.set(path, {entries, expiresAt});
+		for(const entry of entries) {
+			this.entries.set(path === "/" ? `/${entry.name}` : `${path}/${entry.name}`, {entry, expiresAt});
+		}
+
+		return entries;
+	}
+
+
+	protected toStat(path: string, entry: Directory | File): IVfsStat {
+		const size = entry instanceof File ? entry.size : 0;
+		return {
+			ino: this.getIno(path, entry),
+			mode: entry instanceof File ? 0o100444 : 0o040555,
+			nlink: entry instanceof File ? 1 : 2,
+			uid: this.options.uid ?? process.getuid?.() ?? 0,
+			gid: this.options.gid ?? process.getgid?.() ?? 0,
+			size,
+			blocks: Math.ceil(size / 512),
+			atime: entry.modificationDate,
+			mtime: entry.modificationDate,
+			ctime: entry.creationDate,
+		};
+	}
+
+
+	/**
+	 * Cluster numbers start at 2, so they never collide with the root inode.
+	 */
+	protected getIno(path: string, entry: Directory | File): number {
+		if(path === "/") {
+			return ROOT_INO;
+		}
+		if(entry.clusterNumber >= 2) {
+			return entry.clusterNumber;
+		}
+
+		let ino = this.syntheticInodes.get(path);
+		if(ino === undefined) {
+			ino = this.nextSyntheticIno++;
+			this.syntheticInodes.set(path, ino);
+		}
+
+		return ino;
+	}
+
+
+	/**
+	 * @throws {VfsError} EINVAL for relative path.
+	 */
+	protected normalizePath(path: string): string {
+		if(!path.startsWith("/")) {
+			throw new VfsError(EErrno.EINVAL, path);
+		}
+
+		return `/${path.split("/").filter((part) => part !== "").join("/")}`;
+	}
+
+
+	/**
+	 * Converts errors of the library to VfsError, so the binding always gets errno.
+	 */
+	protected async wrapErrors<T>(path: string, operation: () => Promise<T>): Promise<T> {
+		try {
+			return await operation();
+		} catch(err) {
+			if(err instanceof VfsError) {
+				throw err;
+			}
+			if(err instanceof WifiSdcfError && err.code === EErrorCode.PATH_NOT_FOUND) {
+				throw new VfsError(EErrno.ENOENT, path);
+			}
+			if(err instanceof WifiSdcfError && err.code === EErrorCode.INVALID_ARGUMENT) {
+				throw new VfsError(EErrno.EINVAL, path);
+			}
+
+			throw new VfsError(EErrno.EIO, path, `EIO: ${path}: ${err instanceof Error ? err.message : err}`);
+		}
+	}
+}
@@ -0,0 +1,13 @@
+import {WifiSdcfError} from "../../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../../types/EErrorCode.ts";
+import {EErrno} from "../types/EErrno.ts";
+
+export class VfsError extends WifiSdcfError {
+	constructor(
+		public errno: EErrno,
+		public path: string,
+		message: string = `${EErrno[errno]}: ${path}`,
+	) {
+		super(EErrorCode.VFS_OPERATION_FAILED, message);
+	}
+}
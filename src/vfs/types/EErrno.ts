@@ -0,0 +1,13 @@
+/**
+ * POSIX error numbers reported to FUSE, bindings usually expect them negated.
+ */
+export enum EErrno {
+	ENOENT = 2,
+	EIO = 5,
+	EBADF = 9,
+	EACCES = 13,
+	ENOTDIR = 20,
+	EISDIR = 21,
+	EINVAL = 22,
+	EROFS = 30,
+}
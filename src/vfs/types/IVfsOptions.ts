@@ -0,0 +1,13 @@
+export interface IVfsOptions {
+	/**
+	 * How long attributes and directory listings are cached in ms, default 1 000. Changes made by the card's
+	 * host (eg. camera) are visible after this time.
+	 */
+	attributeTtl?: number;
+
+	/**
+	 * Owner reported for all files, default owner of the process.
+	 */
+	uid?: number;
+	gid?: number;
+}
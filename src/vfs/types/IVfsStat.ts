@@ -0,0 +1,23 @@
+/**
+ * Attributes of file or directory in the shape of `struct stat`.
+ */
+export interface IVfsStat {
+	ino: number;
+
+	/**
+	 * File type and permission bits, eg. 0o100444 for read-only regular file.
+	 */
+	mode: number;
+	nlink: number;
+	uid: number;
+	gid: number;
+	size: number;
+
+	/**
+	 * Count of 512 B blocks.
+	 */
+	blocks: number;
+	atime: Date;
+	mtime: Date;
+	ctime: Date;
+}
@@ -0,0 +1,36 @@
+import fs from "node:fs/promises";
+import type {IWatchStateStore} from "../types/IWatchStateStore.ts";
+import type {IWatchState} from "../types/IWatchState.ts";
+
+/**
+ * Stores state of WatchDirectory in local JSON file.
+ */
+export class JsonFileWatchStateStore implements IWatchStateStore {
+
+	constructor(
+		protected filePath: string,
+	) {
+	}
+
+
+	public async load(): Promise<IWatchState | null> {
+		try {
+			return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+		} catch(err) {
+			if((err as NodeJS.ErrnoException).code === "ENOENT") {
+				return null;
+			}
+			throw err;
+		}
+	}
+
+
+	/**
+	 * Written to temporary file first, so crash during write leaves previous state intact.
+	 */
+	public async save(state: IWatchState): Promise<void> {
+		const temporaryPath = `${this.filePath}.tmp`;
+		await fs.writeFile(temporaryPath, JSON.stringify(state, null, "\t"));
+		await fs.rename(temporaryPath, this.filePath);
+	}
+}
@@ -0,0 +1,389 @@
+import http from "node:http";
+import {pipeline} from "node:stream/promises";
+import type {Card} from "../Card.ts";
+import {File} from "../File.ts";
+import type {Directory} from "../Directory.ts";
+import type {IFileSystemAdapter} from "../fs/types/IFileSystemAdapter.ts";
+import type {IWebDavServerOptions} from "./types/IWebDavServerOptions.ts";
+import {WifiSdcfError} from "../errors/WifiSdcfError.ts";
+import {EErrorCode} from "../types/EErrorCode.ts";
+import {resolveEntry} from "../utils/resolveEntry.ts";
+import {parseRangeHeader} from "../utils/parseRangeHeader.ts";
+
+const CARDS_PREFIX = "/cards";
+
+const ALLOWED_METHODS = "OPTIONS, PROPFIND, GET, HEAD, PUT, DELETE, MKCOL";
+
+const DEFAULT_MAX_UPLOAD_SIZE = 256 * 1024 * 1024;
+
+/**
+ * HTTP status for errors of the library, others are 500.
+ */
+const ERROR_STATUS: {[code in EErrorCode]?: number} = {
+	[EErrorCode.PATH_NOT_FOUND]: 404,
+	[EErrorCode.FILE_ALREADY_EXISTS]: 405,
+	[EErrorCode.DIRECTORY_NOT_EMPTY]: 409,
+	[EErrorCode.NOT_ENOUGH_SPACE]: 507,
+	[EErrorCode.UNSUPPORTED_OPERATION]: 403,
+	[EErrorCode.TIMEOUT]: 504,
+	[EErrorCode.AUTHENTICATION_FAILED]: 502,
+	[EErrorCode.INVALID_ARGUMENT]: 400,
+};
+
+const escapeXml = (text: string): string => text
+	.replaceAll("&", "&amp;")
+	.replaceAll("<", "&lt;")
+	.replaceAll(">", "&gt;")
+	.replaceAll('"', "&quot;");
+
+/**
+ * Error which is sent to the client with its status as is.
+ */
+class HttpError extends Error {
+	constructor(
+		public status: number,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Serves cards over WebDAV (class 1, without locking), so they can be mounted by file managers of Windows,
+ * macOS and Linux. Every card is a collection `/cards/<mac>/` with content of its file system.
+ */
+export class WebDavServer implements AsyncDisposable {
+
+	protected server: http.Server | null = null;
+
+	protected cards: Map<string, Card> = new Map();
+
+	/**
+	 * File systems are opened on first request, by card key.
+	 */
+	protected fsAdapters: Map<string, Promise<IFileSystemAdapter>> = new Map();
+
+	constructor(
+		protected options: IWebDavServerOptions = {},
+	) {
+	}
+
+
+	async [Symbol.asyncDispose]() {
+		await this.close();
+	}
+
+
+	/**
+	 * Serves the card under its MAC address, or IP when MAC is not known. Card with the same key is replaced.
+	 *
+	 * @returns Key of the card in URL.
+	 */
+	public addCard(card: Card): string {
+		const key = (card.mac ?? card.ip).toLowerCase();
+		this.cards.set(key, card);
+		this.fsAdapters.delete(key);
+
+		return key;
+	}
+
+
+	public removeCard(key: string): void {
+		this.cards.delete(key.toLowerCase());
+		this.fsAdapters.delete(key.toLowerCase());
+	}
+
+
+	/**
+	 * @returns Port the server listens on.
+	 */
+	public async start(): Promise<number> {
+		const server = http.createServer((req, res) => {
+			this.handleRequest(req, res).catch((err) => this.sendError(res, err));
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(this.options.port ?? 8080, this.options.host ?? "127.0.0.1", () => {
+				server.off("error", reject);
+				resolve();
+			});
+		});
+		this.server = server;
+
+		return (server.address() as {port: number}).port;
+	}
+
+
+	public async close(): Promise<void> {
+		const server = this.server;
+		this.server = null;
+		if(server) {
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		}
+	}
+
+
+	protected async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+		const url = new URL(req.url ?? "/", "http://localhost");
+		let segments: string[];
+		try {
+			segments = url.pathname.split("/").filter((segment) => segment !== "").map(decodeURIComponent);
+		} catch {
+			throw new HttpError(400, "Malformed percent-encoding in URL");
+		}
+
+		if(req.method === "OPTIONS") {
+			res.writeHead(200, {"DAV": "1", "Allow": ALLOWED_METHODS, "MS-Author-Via": "DAV", "Content-Length": 0});
+			res.end();
+			return;
+		}
+
+		if(segments.length === 0 || `/${segments[0]}` !== CARDS_PREFIX) {
+			if(segments.length === 0 && req.method === "PROPFIND") {
+				await this.sendMultiStatus(res, [this.collectionResponse("/", "")].concat(
+					req.headers.depth === "0" ? [] : [this.collectionResponse(`${CARDS_PREFIX}/`, "cards")]
+				));
+				return;
+			}
+			throw new HttpError(404, `Cards are served under ${CARDS_PREFIX}/`);
+		}
+
+		if(segments.length === 1) {
+			if(req.method !== "PROPFIND") {
+				throw new HttpError(405, "Only PROPFIND is allowed on list of cards");
+			}
+
+			const responses = [this.collectionResponse(`${CARDS_PREFIX}/`, "cards")];
+			if(req.headers.depth !== "0") {
+				for(const key of this.cards.keys()) {
+					responses.push(this.collectionResponse(`${CARDS_PREFIX}/${encodeURIComponent(key)}/`, key));
+				}
+			}
+			await this.sendMultiStatus(res, responses);
+			return;
+		}
+
+		const key = segments[1].toLowerCase();
+		const fsAdapter = await this.getFileSystemAdapter(key);
+		const path = `/${segments.slice(2).join("/")}`;
+		const href = `${CARDS_PREFIX}/${segments.slice(1).map(encodeURIComponent).join("/")}`;
+
+		switch(req.method) {
+			case "PROPFIND":
+				return this.handlePropFind(req, res, fsAdapter, path, href);
+			case "GET":
+			case "HEAD":
+				return this.handleGet(req, res, fsAdapter, path);
+			case "PUT":
+				return this.handlePut(req, res, fsAdapter, path);
+			case "DELETE":
+				return this.handleDelete(res, fsAdapter, path);
+			case "MKCOL":
+				await fsAdapter.createDirectory(path);
+				res.writeHead(201, {"Content-Length": 0});
+				res.end();
+				return;
+			default:
+				res.setHeader("Allow", ALLOWED_METHODS);
+				throw new HttpError(405, `Method ${req.method} is not supported`);
+		}
+	}
+
+
+	protected async handlePropFind(req: http.IncomingMessage, res: http.ServerResponse, fsAdapter: IFileSystemAdapter, path: string, href: string): Promise<void> {
+		const entry = await resolveEntry(fsAdapter, path);
+		if(entry instanceof File) {
+			await this.sendMultiStatus(res, [this.entryResponse(href, entry)]);
+			return;
+		}
+
+		const collectionHref = href.endsWith("/") ? href : `${href}/`;
+		const responses = [this.entryResponse(collectionHref, entry)];
+		// Depth infinity is served as 1, listing whole card would take too long
+		if(req.headers.depth !== "0") {
+			for(const child of await entry.list(true)) {
+				if(child.name === "." || child.name === "..") {
+					continue;
+				}
+				const childHref = collectionHref + encodeURIComponent(child.name);
+				responses.push(this.entryResponse(child instanceof File ? childHref : `${childHref}/`, child));
+			}
+		}
+
+		await this.sendMultiStatus(res, responses);
+	}
+
+
+	protected async handleGet(req: http.IncomingMessage, res: http.ServerResponse, fsAdapter: IFileSystemAdapter, path: string): Promise<void> {
+		const file = await resolveEntry(fsAdapter, path);
+		if(!(file instanceof File)) {
+			throw new HttpError(405, "GET of collection is not supported, use PROPFIND");
+		}
+
+		const headers: http.OutgoingHttpHeaders = {
+			"Content-Type": "application/octet-stream",
+			"Last-Modified": file.modificationDate.toUTCString(),
+			"Accept-Ranges": "bytes",
+		};
+
+		const range = parseRangeHeader(req.headers.range, file.size);
+		if(range === "unsatisfiable") {
+			res.writeHead(416, {...headers, "Content-Range": `bytes */${file.size}`, "Content-Length": 0});
+			res.end();
+			return;
+		}
+
+		const start = range?.start ?? 0;
+		const end = range?.end ?? file.size - 1;
+		if(range) {
+			headers["Content-Range"] = `bytes ${start}-${end}/${file.size}`;
+		}
+		headers["Content-Length"] = end - start + 1;
+		res.writeHead(range ? 206 : 200, headers);
+
+		if(req.method === "HEAD" || file.size === 0) {
+			res.end();
+			return;
+		}
+
+		await pipeline(file.createReadStream({start, end}), res);
+	}
+
+
+	/**
+	 * @throws {HttpError} 413 when the body is larger than maxUploadSize.
+	 */
+	protected async handlePut(req: http.IncomingMessage, res: http.ServerResponse, fsAdapter: IFileSystemAdapter, path: string): Promise<void> {
+		const maxUploadSize = this.options.maxUploadSize ?? DEFAULT_MAX_UPLOAD_SIZE;
+		const tooLarge = (): HttpError => {
+			// Rest of the body is not read, so the connection can not be reused
+			res.setHeader("Connection", "close");
+			return new HttpError(413, `Upload is larger than ${maxUploadSize} bytes`);
+		};
+		if(Number(req.headers["content-length"] ?? 0) > maxUploadSize) {
+			throw tooLarge();
+		}
+
+		// Adapters write whole files at once
+		const chunks: Buffer[] = [];
+		let size = 0;
+		for await (const chunk of req) {
+			size += (chunk as Buffer).length;
+			if(size > maxUploadSize) {
+				throw tooLarge();
+			}
+			chunks.push(chunk as Buffer);
+		}
+
+		const existed = await resolveEntry(fsAdapter, path).then(() => true, () => false);
+		await fsAdapter.writeFile(path, Buffer.concat(chunks));
+		res.writeHead(existed ? 204 : 201, {"Content-Length": 0});
+		res.end();
+	}
+
+
+	/**
+	 * Collections are deleted with their content, as WebDAV requires.
+	 */
+	protected async handleDelete(res: http.ServerResponse, fsAdapter: IFileSystemAdapter, path: string): Promise<void> {
+		const entry = await resolveEntry(fsAdapter, path);
+		if(path === "/") {
+			throw new HttpError(403, "Root of the card can not be deleted");
+		}
+
+		if(entry instanceof File) {
+			await fsAdapter.deleteFile(path);
+		} else {
+			await fsAdapter.removeDirectory(path, true);
+		}
+		res.writeHead(204);
+		res.end();
+	}
+
+
+	/**
+	 * @throws {HttpError} When the card is not served.
+	 */
+	protected getFileSystemAdapter(key: string): Promise<IFileSystemAdapter> {
+		const card = this.cards.get(key);
+		if(!card) {
+			throw new HttpError(404, `Card ${key} not found`);
+		}
+
+		let fsAdapter = this.fsAdapters.get(key);
+		if(!fsAdapter) {
+			fsAdapter = card.getFileSystemAdapter(this.options.partition ?? 0);
+			// Failed opening (eg. card offline) is retried by the next request
+			fsAdapter.catch(() => this.fsAdapters.delete(key));
+			this.fsAdapters.set(key, fsAdapter);
+		}
+
+		return fsAdapter;
+	}
+
+
+	protected entryResponse(href: string, entry: Directory | File): string {
+		const props = [
+			`<D:displayname>${escapeXml(entry.name)}</D:displayname>`,
+			`<D:creationdate>${entry.creationDate.toISOString()}</D:creationdate>`,
+			`<D:getlastmodified>${entry.modificationDate.toUTCString()}</D:getlastmodified>`,
+		];
+		if(entry instanceof File) {
+			props.push(
+				"<D:resourcetype/>",
+				`<D:getcontentlength>${entry.size}</D:getcontentlength>`,
+				"<D:getcontenttype>application/octet-stream</D:getcontenttype>",
+			);
+		} else {
+			props.push("<D:resourcetype><D:collection/></D:resourcetype>");
+		}
+
+		return this.response(href, props);
+	}
+
+
+	protected collectionResponse(href: string, name: string): string {
+		return this.response(href, [
+			`<D:displayname>${escapeXml(name)}</D:displayname>`,
+			"<D:resourcetype><D:collection/></D:resourcetype>",
+		]);
+	}
+
+
+	protected response(href: string, props: string[]): string {
+		return `<D:response><D:href>${escapeXml(href)}</D:href><D:propstat><D:prop>${props.join("")}</D:prop>`
+			+ "<D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>";
+	}
+
+
+	protected async sendMultiStatus(res: http.ServerResponse, responses: string[]): Promise<void> {
+		const body = `<?xml version="1.0" encoding="utf-8"?>\n<D:multistatus xmlns:D="DAV:">${responses.join("")}</D:multistatus>`;
+		res.writeHead(207, {"Content-Type": "application/xml; charset=utf-8", "Content-Length": Buffer.byteLength(body)});
+		res.end(body);
+	}
+
+
+	protected sendError(res: http.ServerResponse, err: unknown): void {
+		let status = 500;
+		if(err instanceof HttpError) {
+			status = err.status;
+		} else if(err instanceof WifiSdcfError) {
+			status = ERROR_STATUS[err.code] ?? 500;
+		}
+		if(status === 500) {
+			console.error(`WebDAV request failed: ${err}`);
+		}
+
+		// Error in the middle of streamed response can not change its status
+		if(res.headersSent) {
+			res.destroy();
+			return;
+		}
+
+		const message = err instanceof Error ? err.message : String(err);
+		res.writeHead(status, {"Content-Type": "text/plain; charset=utf-8", "Content-Length": Buffer.byteLength(message)});
+		res.end(message);
+	}
+}
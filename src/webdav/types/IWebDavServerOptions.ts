@@ -0,0 +1,22 @@
+export interface IWebDavServerOptions {
+	/**
+	 * TCP port to listen on, default 8080. Use 0 for any free port.
+	 */
+	port?: number;
+
+	/**
+	 * Address to bind to, default "127.0.0.1". Use "0.0.0.0" to share cards with other machines.
+	 */
+	host?: string;
+
+	/**
+	 * Partition of the cards which is served, default 0.
+	 */
+	partition?: number;
+
+	/**
+	 * Largest accepted PUT body in bytes, default 256 MiB. Uploaded files are held in memory until written,
+	 * larger uploads are refused with 413.
+	 */
+	maxUploadSize?: number;
+}
@@ -0,0 +1,179 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import dgram from "node:dgram";
+import fs from "node:fs/promises";
+import {CardSimulator} from "../src/simulator/CardSimulator.ts";
+import type {ICardSimulatorOptions} from "../src/simulator/types/ICardSimulatorOptions.ts";
+import {Card} from "../src/Card.ts";
+import {NetworkDiscovery} from "../src/NetworkDiscovery.ts";
+import {FileBlockDevice} from "../src/FileBlockDevice.ts";
+import {LbaOutOfRangeError} from "../src/errors/LbaOutOfRangeError.ts";
+import {AuthenticationError} from "../src/errors/AuthenticationError.ts";
+import udpServerInstance from "../src/network/UdpServer.ts";
+import {LOCAL_PORT} from "../src/constants/LOCAL_PORT.ts";
+import {createFatImage, FAT_IMAGE_BLOCKS, removeFatImage} from "./fixtures/createFatImage.ts";
+
+const SIMULATOR_PORT = 24390;
+const MAC = "02:00:00:00:00:01";
+
+/**
+ * Linear congruential generator, so loss and reordering are the same in every run.
+ */
+const seededRandom = (seed: number) => (): number => {
+	seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31;
+	return seed / 2 ** 31;
+};
+
+/**
+ * Every card listens on its own loopback address, responses of the simulator bound to it come from that address.
+ */
+const startSimulator = async (imagePath: string, address: string, options: ICardSimulatorOptions = {}): Promise<CardSimulator> => {
+	const simulator = new CardSimulator(imagePath, {port: SIMULATOR_PORT, address, ip: address, mac: MAC, ...options});
+	await simulator.start();
+	return simulator;
+};
+
+const createCard = (address: string): Card => new Card(address, MAC, "SD", undefined, undefined, undefined, undefined, {port: SIMULATOR_PORT});
+
+const readImage = async (imagePath: string, LBA_start: number, count: number): Promise<Buffer> => {
+	const data = Buffer.alloc(count * 512);
+	const handle = await fs.open(imagePath, "r");
+	await handle.read(data, 0, data.length, LBA_start * 512);
+	await handle.close();
+	return data;
+};
+
+describe("CardSimulator", () => {
+	let imagePath: string;
+
+	before(async () => {
+		imagePath = await createFatImage();
+		// Distinct content of every block, so misplaced blocks are detected
+		const handle = await fs.open(imagePath, "r+");
+		for(let block = 1000; block < 1200; block++) {
+			await handle.write(Buffer.alloc(512, block % 251), 0, 512, block * 512);
+		}
+		await handle.close();
+	});
+
+	after(async () => {
+		// Shared socket of all cards would keep the test process running
+		udpServerInstance.destroy();
+		await removeFatImage(imagePath);
+	});
+
+	it("answers discovery with card info", async () => {
+		await using simulator = await startSimulator(imagePath, "127.0.0.2");
+		using discovery = new NetworkDiscovery(["127.0.0.2"], () => undefined, SIMULATOR_PORT);
+
+		const card = await new Promise<Card>((resolve) => {
+			discovery.onCardDiscovered = resolve;
+			discovery.startDiscovering(200);
+		});
+
+		assert.equal(card.ip, "127.0.0.2");
+		assert.equal(card.mac, MAC);
+		assert.equal(card.type, "SD");
+		assert.equal(card.capacity, FAT_IMAGE_BLOCKS);
+		assert.equal(card.apMode, true);
+	});
+
+	it("drops truncated card info", async () => {
+		await using simulator = await startSimulator(imagePath, "127.0.0.9");
+		using discovery = new NetworkDiscovery(["127.0.0.9"], () => undefined, SIMULATOR_PORT);
+
+		// Header, direction and command of card info without the rest
+		const truncated = Buffer.concat([Buffer.from("FC1307"), Buffer.from([2, 1]), Buffer.alloc(30)]);
+		const socket = dgram.createSocket("udp4");
+		await new Promise<void>((resolve, reject) => socket.send(truncated, LOCAL_PORT, "127.0.0.1", (err) => err ? reject(err) : resolve()));
+		socket.close();
+
+		const card = await new Promise<Card>((resolve) => {
+			discovery.onCardDiscovered = resolve;
+			discovery.startDiscovering(200);
+		});
+		assert.equal(card.ip, "127.0.0.9");
+	});
+
+	it("serves blocks of the image", async () => {
+		await using simulator = await startSimulator(imagePath, "127.0.0.3");
+		using card = createCard("127.0.0.3");
+
+		assert.deepEqual(await card.readBlocks(1000, 100), await readImage(imagePath, 1000, 100));
+		assert.deepEqual(await card.readBlocks(1199, 1), await readImage(imagePath, 1199, 1));
+	});
+
+	it("reassembles fragmented responses", async () => {
+		await using simulator = await startSimulator(imagePath, "127.0.0.4", {fragmentBlocks: 3});
+		using card = createCard("127.0.0.4");
+
+		assert.deepEqual(await card.readBlocks(1000, 50), await readImage(imagePath, 1000, 50));
+	});
+
+	it("retransmits requests over lossy and reordering link", async () => {
+		await using simulator = await startSimulator(imagePath, "127.0.0.5", {
+			lossRate: 0.15,
+			reorderRate: 0.2,
+			latency: {min: 1, max: 10},
+			random: seededRandom(42),
+		});
+		let requests = 0;
+		simulator.onRequest = () => requests++;
+		using card = createCard("127.0.0.5");
+
+		assert.deepEqual(await card.readBlocks(1000, 140), await readImage(imagePath, 1000, 140));
+		// 140 blocks are 10 requests of 14 blocks, lost responses are requested again
+		assert.ok(requests > 10, `expected retransmissions, got ${requests} requests`);
+	});
+
+	it("refuses blocks out of range of the image", async () => {
+		await using simulator = await startSimulator(imagePath, "127.0.0.6");
+		using card = createCard("127.0.0.6");
+
+		await assert.rejects(card.readBlocks(FAT_IMAGE_BLOCKS, 1), LbaOutOfRangeError);
+		await assert.rejects(card.writeBlocks(FAT_IMAGE_BLOCKS, Buffer.alloc(512)), LbaOutOfRangeError);
+	});
+
+	it("keeps previous credentials when the card refuses new ones", async () => {
+		const credentials = {username: "admin", password: "secret"};
+		await using simulator = await startSimulator(imagePath, "127.0.0.10", {credentials});
+		using card = new Card("127.0.0.10", MAC, "SD", undefined, undefined, undefined, undefined, {port: SIMULATOR_PORT, credentials});
+
+		await assert.rejects(card.authenticate("admin", "wrong"), AuthenticationError);
+
+		assert.deepEqual(await card.readBlocks(1000, 1), await readImage(imagePath, 1000, 1));
+	});
+
+	it("writes blocks to the image", async () => {
+		await using simulator = await startSimulator(imagePath, "127.0.0.7");
+		using card = createCard("127.0.0.7");
+		const data = Buffer.alloc(20 * 512);
+		for(let i = 0; i < data.length; i++) {
+			data[i] = (i * 7) % 256;
+		}
+
+		await card.writeBlocks(2000, data);
+
+		assert.deepEqual(await card.readBlocks(2000, 20), data);
+		assert.deepEqual(await readImage(imagePath, 2000, 20), data);
+	});
+
+	it("writes files through FAT adapter of the card", async () => {
+		await using simulator = await startSimulator(imagePath, "127.0.0.8", {
+			lossRate: 0.1,
+			random: seededRandom(7),
+		});
+		using card = createCard("127.0.0.8");
+		const content = Buffer.from("Hello from the simulator\n".repeat(100));
+
+		const fsAdapter = await card.getFileSystemAdapter(0);
+		await fsAdapter.createDirectory("/DCIM");
+		await fsAdapter.writeFile("/DCIM/HELLO.TXT", content);
+
+		await using image = new FileBlockDevice(imagePath, true);
+		const imageAdapter = await image.getFileSystemAdapter(0);
+		const [file] = await imageAdapter.listFolder("/DCIM").then((files) => files.filter((info) => info.name === "HELLO.TXT"));
+		assert.equal(file.size, content.length);
+		assert.deepEqual(await imageAdapter.getFileContent(file), content);
+	});
+});
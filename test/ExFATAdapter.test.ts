@@ -0,0 +1,110 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {FileBlockDevice} from "../src/FileBlockDevice.ts";
+import type {IFileSystemAdapter} from "../src/fs/types/IFileSystemAdapter.ts";
+import type {IFileInfo} from "../src/fs/types/IFileInfo.ts";
+import {ExFATAdapter} from "../src/fs/ExFATAdapter.ts";
+import {DirectoryNotFoundError} from "../src/fs/errors/DirectoryNotFoundError.ts";
+import {UnsupportedOperationError} from "../src/fs/errors/UnsupportedOperationError.ts";
+import {
+	createExFatImage,
+	EXFAT_CHAINED_CONTENT,
+	EXFAT_CONTIGUOUS_CONTENT,
+	EXFAT_MODIFICATION_TIME,
+	EXFAT_README_CONTENT,
+} from "./fixtures/createExFatImage.ts";
+import {removeFatImage} from "./fixtures/createFatImage.ts";
+
+describe("ExFATAdapter", () => {
+	let imagePath: string;
+	let device: FileBlockDevice;
+	let fsAdapter: IFileSystemAdapter;
+
+	const findFile = async (path: string, name: string): Promise<IFileInfo> => {
+		const [file] = (await fsAdapter.listFolder(path)).filter((info) => info.name === name);
+		assert.ok(file, `${name} not found in ${path}`);
+		return file;
+	};
+
+	before(async () => {
+		imagePath = await createExFatImage();
+		device = new FileBlockDevice(imagePath, true);
+		fsAdapter = await device.getFileSystemAdapter(0);
+	});
+
+	after(async () => {
+		await device.close();
+		await removeFatImage(imagePath);
+	});
+
+	it("is detected in partition of type shared with NTFS", () => {
+		assert.ok(fsAdapter instanceof ExFATAdapter);
+	});
+
+	it("lists root directory spread over FAT chain", async () => {
+		const files = await fsAdapter.listFolder("/");
+
+		assert.deepEqual(files.map((file) => [file.name, file.isDirectory]), [["DCIM", true], ["readme.txt", false]]);
+	});
+
+	it("lists contiguous directory with sizes and allocation flags", async () => {
+		const files = await fsAdapter.listFolder("/DCIM");
+
+		assert.deepEqual(files.map((file) => [file.name, file.size, file.contiguous]), [
+			["CONTIG.JPG", EXFAT_CONTIGUOUS_CONTENT.length, true],
+			["CHAINED.JPG", EXFAT_CHAINED_CONTENT.length, false],
+		]);
+	});
+
+	it("compares names by the Up-case Table", async () => {
+		assert.equal((await fsAdapter.listFolder("/dcim")).length, 2);
+		assert.equal((await (await fsAdapter.getDirectory("/Dcim")).list()).length, 2);
+		await assert.rejects(fsAdapter.listFolder("/DCIM2"), DirectoryNotFoundError);
+	});
+
+	it("parses timestamps with UTC offset", async () => {
+		const file = await findFile("/DCIM", "CONTIG.JPG");
+
+		assert.equal(file.modificationTime.getTime(), EXFAT_MODIFICATION_TIME.getTime());
+		assert.equal(file.creationTime.getTime(), EXFAT_MODIFICATION_TIME.getTime());
+	});
+
+	it("reads contiguous file", async () => {
+		const file = await findFile("/DCIM", "CONTIG.JPG");
+
+		assert.deepEqual(await fsAdapter.getFileContent(file), EXFAT_CONTIGUOUS_CONTENT);
+		assert.deepEqual(await fsAdapter.readRange(file, 700, 900), EXFAT_CONTIGUOUS_CONTENT.subarray(700, 1600));
+		assert.deepEqual(await fsAdapter.readRange(file, 1990, 100), EXFAT_CONTIGUOUS_CONTENT.subarray(1990));
+	});
+
+	it("reads file by FAT chain", async () => {
+		const file = await findFile("/DCIM", "CHAINED.JPG");
+
+		assert.deepEqual(await fsAdapter.getFileContent(file), EXFAT_CHAINED_CONTENT);
+		assert.deepEqual(await fsAdapter.readRange(file, 500, 600), EXFAT_CHAINED_CONTENT.subarray(500, 1100));
+		// Continues from the position in chain where the previous read ended
+		assert.deepEqual(await fsAdapter.readRange(file, 1100, 700), EXFAT_CHAINED_CONTENT.subarray(1100, 1800));
+		assert.deepEqual(await fsAdapter.readRange(file, 1536, 10), EXFAT_CHAINED_CONTENT.subarray(1536, 1546));
+	});
+
+	it("reads file from the second cluster of root", async () => {
+		const file = await findFile("/", "readme.txt");
+
+		assert.deepEqual(await fsAdapter.getFileContent(file), EXFAT_README_CONTENT);
+	});
+
+	it("reads allocation of clusters from the Allocation Bitmap", async () => {
+		const contiguous = await findFile("/DCIM", "CONTIG.JPG");
+		const chained = await findFile("/DCIM", "CHAINED.JPG");
+		const adapter = fsAdapter as ExFATAdapter;
+
+		assert.equal(adapter.isClusterAllocated(contiguous.clusterNumber + 3), true);
+		assert.equal(adapter.isClusterAllocated(contiguous.clusterNumber + 4), false);
+		assert.equal(adapter.isClusterAllocated(chained.clusterNumber), true);
+		assert.equal(adapter.isClusterAllocated(chained.clusterNumber + 3), false);
+	});
+
+	it("refuses to write", async () => {
+		await assert.rejects(fsAdapter.writeFile("/DCIM/NEW.JPG", Buffer.alloc(1)), UnsupportedOperationError);
+	});
+});
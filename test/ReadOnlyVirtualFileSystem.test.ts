@@ -0,0 +1,218 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {FileBlockDevice} from "../src/FileBlockDevice.ts";
+import type {IFileSystemAdapter} from "../src/fs/types/IFileSystemAdapter.ts";
+import {ReadOnlyVirtualFileSystem} from "../src/vfs/ReadOnlyVirtualFileSystem.ts";
+import {VfsError} from "../src/vfs/errors/VfsError.ts";
+import {EErrno} from "../src/vfs/types/EErrno.ts";
+import {createFatImage, removeFatImage} from "./fixtures/createFatImage.ts";
+
+const O_RDONLY = 0;
+const O_WRONLY = 1;
+const O_RDWR = 2;
+
+const content = Buffer.from("0123456789abcdefghijklmnopqrstuvwxyz".repeat(40));
+
+const isErrno = (errno: EErrno) => (err: unknown): boolean => err instanceof VfsError && err.errno === errno;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("ReadOnlyVirtualFileSystem", () => {
+	let imagePath: string;
+	let device: FileBlockDevice;
+	let fsAdapter: IFileSystemAdapter;
+
+	before(async () => {
+		imagePath = await createFatImage();
+		device = new FileBlockDevice(imagePath);
+		fsAdapter = await device.getFileSystemAdapter(0);
+
+		await fsAdapter.createDirectory("/DCIM");
+		await fsAdapter.createDirectory("/DCIM/100MEDIA");
+		await fsAdapter.writeFile("/DCIM/100MEDIA/IMG_0001.JPG", content);
+		await fsAdapter.writeFile("/DCIM/100MEDIA/EMPTY1.TXT", Buffer.alloc(0));
+		await fsAdapter.writeFile("/DCIM/100MEDIA/EMPTY2.TXT", Buffer.alloc(0));
+	});
+
+	after(async () => {
+		await device.close();
+		await removeFatImage(imagePath);
+	});
+
+	describe("getattr", () => {
+		it("reports root as directory with inode 1", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const stat = await vfs.getattr("/");
+
+			assert.equal(stat.ino, 1);
+			assert.equal(stat.mode, 0o040555);
+			assert.equal(stat.nlink, 2);
+		});
+
+		it("reports file size, read-only mode and cluster as inode", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const stat = await vfs.getattr("/DCIM/100MEDIA/IMG_0001.JPG");
+			const [info] = (await fsAdapter.listFolder("/DCIM/100MEDIA")).filter((file) => file.name === "IMG_0001.JPG");
+
+			assert.equal(stat.size, content.length);
+			assert.equal(stat.mode, 0o100444);
+			assert.equal(stat.blocks, Math.ceil(content.length / 512));
+			assert.equal(stat.ino, info.clusterNumber);
+			assert.deepEqual(stat.mtime, info.modificationTime);
+		});
+
+		it("uses owner from options", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter, {uid: 1234, gid: 5678});
+			const stat = await vfs.getattr("/DCIM");
+
+			assert.equal(stat.uid, 1234);
+			assert.equal(stat.gid, 5678);
+		});
+
+		it("allocates stable synthetic inodes for empty files without cluster", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const first = await vfs.getattr("/DCIM/100MEDIA/EMPTY1.TXT");
+			const second = await vfs.getattr("/DCIM/100MEDIA/EMPTY2.TXT");
+
+			assert.ok(first.ino >= 2 ** 32);
+			assert.ok(second.ino >= 2 ** 32);
+			assert.notEqual(first.ino, second.ino);
+			assert.equal((await vfs.getattr("/DCIM/100MEDIA/EMPTY1.TXT")).ino, first.ino);
+		});
+
+		it("matches names case-insensitively and ignores repeated slashes", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const stat = await vfs.getattr("//dcim/100media//img_0001.jpg");
+
+			assert.equal(stat.size, content.length);
+		});
+
+		it("fails with ENOENT for missing path and EINVAL for relative path", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+
+			await assert.rejects(vfs.getattr("/DCIM/MISSING.JPG"), isErrno(EErrno.ENOENT));
+			await assert.rejects(vfs.getattr("/MISSING/IMG_0001.JPG"), isErrno(EErrno.ENOENT));
+			await assert.rejects(vfs.getattr("DCIM"), isErrno(EErrno.EINVAL));
+		});
+
+		it("fails with ENOTDIR when file is used as directory", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+
+			await assert.rejects(vfs.getattr("/DCIM/100MEDIA/IMG_0001.JPG/X"), isErrno(EErrno.ENOTDIR));
+		});
+	});
+
+	describe("readdir", () => {
+		it("lists names without . and ..", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+
+			assert.deepEqual(await vfs.readdir("/"), ["DCIM"]);
+			assert.deepEqual(await vfs.readdir("/DCIM"), ["100MEDIA"]);
+			assert.deepEqual((await vfs.readdir("/DCIM/100MEDIA")).sort(), ["EMPTY1.TXT", "EMPTY2.TXT", "IMG_0001.JPG"]);
+		});
+
+		it("fails with ENOTDIR for file", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+
+			await assert.rejects(vfs.readdir("/DCIM/100MEDIA/IMG_0001.JPG"), isErrno(EErrno.ENOTDIR));
+		});
+	});
+
+	describe("open", () => {
+		it("refuses write access with EROFS", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+
+			await assert.rejects(vfs.open("/DCIM/100MEDIA/IMG_0001.JPG", O_WRONLY), isErrno(EErrno.EROFS));
+			await assert.rejects(vfs.open("/DCIM/100MEDIA/IMG_0001.JPG", O_RDWR), isErrno(EErrno.EROFS));
+		});
+
+		it("fails with EISDIR for directory and ENOENT for missing file", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+
+			await assert.rejects(vfs.open("/DCIM", O_RDONLY), isErrno(EErrno.EISDIR));
+			await assert.rejects(vfs.open("/DCIM/MISSING.JPG", O_RDONLY), isErrno(EErrno.ENOENT));
+		});
+
+		it("returns distinct descriptors", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const first = await vfs.open("/DCIM/100MEDIA/IMG_0001.JPG");
+			const second = await vfs.open("/DCIM/100MEDIA/IMG_0001.JPG");
+
+			assert.notEqual(first, second);
+		});
+	});
+
+	describe("read", () => {
+		it("reads requested range", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const fd = await vfs.open("/DCIM/100MEDIA/IMG_0001.JPG");
+
+			assert.deepEqual(await vfs.read(fd, 100, 0), content.subarray(0, 100));
+			assert.deepEqual(await vfs.read(fd, 700, 500), content.subarray(500, 1200));
+		});
+
+		it("returns shorter data at the end and nothing at or past EOF", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const fd = await vfs.open("/DCIM/100MEDIA/IMG_0001.JPG");
+
+			assert.deepEqual(await vfs.read(fd, 100, content.length - 10), content.subarray(content.length - 10));
+			assert.equal((await vfs.read(fd, 100, content.length)).length, 0);
+			assert.equal((await vfs.read(fd, 100, content.length + 1000)).length, 0);
+		});
+
+		it("returns nothing for empty file", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const fd = await vfs.open("/DCIM/100MEDIA/EMPTY1.TXT");
+
+			assert.equal((await vfs.read(fd, 100, 0)).length, 0);
+		});
+	});
+
+	describe("release", () => {
+		it("closes the descriptor", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+			const fd = await vfs.open("/DCIM/100MEDIA/IMG_0001.JPG");
+			await vfs.release(fd);
+
+			await assert.rejects(vfs.read(fd, 10, 0), isErrno(EErrno.EBADF));
+			await assert.rejects(vfs.release(fd), isErrno(EErrno.EBADF));
+		});
+
+		it("fails with EBADF for unknown descriptor", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter);
+
+			await assert.rejects(vfs.release(42), isErrno(EErrno.EBADF));
+		});
+	});
+
+	describe("attribute cache", () => {
+		it("shows changes after attributeTtl", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter, {attributeTtl: 200});
+			await fsAdapter.writeFile("/DCIM/TTL.TXT", Buffer.alloc(10));
+			assert.equal((await vfs.getattr("/DCIM/TTL.TXT")).size, 10);
+
+			await fsAdapter.writeFile("/DCIM/TTL.TXT", Buffer.alloc(20));
+			assert.equal((await vfs.getattr("/DCIM/TTL.TXT")).size, 10);
+
+			await sleep(250);
+			assert.equal((await vfs.getattr("/DCIM/TTL.TXT")).size, 20);
+		});
+
+		it("shows changes right after invalidate", async () => {
+			const vfs = new ReadOnlyVirtualFileSystem(fsAdapter, {attributeTtl: 60_000});
+			await fsAdapter.writeFile("/DCIM/INVALID.TXT", Buffer.alloc(10));
+			assert.equal((await vfs.getattr("/DCIM/INVALID.TXT")).size, 10);
+			assert.ok(!(await vfs.readdir("/DCIM")).includes("NEW.TXT"));
+
+			await fsAdapter.writeFile("/DCIM/INVALID.TXT", Buffer.alloc(20));
+			await fsAdapter.writeFile("/DCIM/NEW.TXT", Buffer.alloc(5));
+			assert.equal((await vfs.getattr("/DCIM/INVALID.TXT")).size, 10);
+			await assert.rejects(vfs.getattr("/DCIM/NEW.TXT"), isErrno(EErrno.ENOENT));
+
+			vfs.invalidate();
+			assert.equal((await vfs.getattr("/DCIM/INVALID.TXT")).size, 20);
+			assert.equal((await vfs.getattr("/DCIM/NEW.TXT")).size, 5);
+			assert.ok((await vfs.readdir("/DCIM")).includes("NEW.TXT"));
+		});
+	});
+});
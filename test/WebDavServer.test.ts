@@ -0,0 +1,203 @@
+import {after, before, describe, it} from "node:test";
+import assert from "node:assert/strict";
+import {WebDavServer} from "../src/webdav/WebDavServer.ts";
+import {CardSimulator} from "../src/simulator/CardSimulator.ts";
+import {Card} from "../src/Card.ts";
+import {FileBlockDevice} from "../src/FileBlockDevice.ts";
+import type {IFileInfo} from "../src/fs/types/IFileInfo.ts";
+import udpServerInstance from "../src/network/UdpServer.ts";
+import {createFatImage, removeFatImage} from "./fixtures/createFatImage.ts";
+
+const SIMULATOR_PORT = 24391;
+const CARD_ADDRESS = "127.0.0.9";
+const MAC = "02:00:00:00:00:09";
+const CARD_PATH = `/cards/${MAC}`;
+
+const content = Buffer.from("0123456789".repeat(100));
+
+describe("WebDavServer", () => {
+	let imagePath: string;
+	let photo: IFileInfo;
+	let simulator: CardSimulator;
+	let card: Card;
+	let server: WebDavServer;
+	let baseUrl: string;
+
+	const request = (method: string, path: string, headers: {[name: string]: string} = {}, body?: Buffer | string): Promise<Response> => {
+		return fetch(baseUrl + path, {method, headers, body});
+	};
+
+	before(async () => {
+		imagePath = await createFatImage();
+		await using image = new FileBlockDevice(imagePath);
+		const fsAdapter = await image.getFileSystemAdapter(0);
+		await fsAdapter.createDirectory("/DCIM");
+		await fsAdapter.writeFile("/DCIM/IMG_0001.JPG", content);
+		// Times as stored on the volume, which is what the server reports
+		[photo] = (await fsAdapter.listFolder("/DCIM")).filter((file) => file.name === "IMG_0001.JPG");
+
+		simulator = new CardSimulator(imagePath, {port: SIMULATOR_PORT, address: CARD_ADDRESS, ip: CARD_ADDRESS, mac: MAC});
+		await simulator.start();
+		card = new Card(CARD_ADDRESS, MAC, "SD", undefined, undefined, undefined, undefined, {port: SIMULATOR_PORT});
+
+		server = new WebDavServer({port: 0, maxUploadSize: 4096});
+		server.addCard(card);
+		baseUrl = `http://127.0.0.1:${await server.start()}`;
+	});
+
+	after(async () => {
+		await server.close();
+		card.destroy();
+		await simulator.stop();
+		// Shared socket of all cards would keep the test process running
+		udpServerInstance.destroy();
+		await removeFatImage(imagePath);
+	});
+
+	it("announces WebDAV class 1 in OPTIONS", async () => {
+		const response = await request("OPTIONS", "/cards/");
+
+		assert.equal(response.status, 200);
+		assert.equal(response.headers.get("dav"), "1");
+		assert.match(response.headers.get("allow")!, /PROPFIND/);
+	});
+
+	describe("PROPFIND", () => {
+		it("lists served cards", async () => {
+			const response = await request("PROPFIND", "/cards/", {Depth: "1"});
+			const body = await response.text();
+
+			assert.equal(response.status, 207);
+			assert.ok(body.includes(`<D:href>/cards/${encodeURIComponent(MAC)}/</D:href>`));
+		});
+
+		it("returns only the collection itself at depth 0", async () => {
+			const response = await request("PROPFIND", `${CARD_PATH}/DCIM`, {Depth: "0"});
+			const body = await response.text();
+
+			assert.equal(response.status, 207);
+			assert.equal(body.match(/<D:response>/g)?.length, 1);
+			assert.ok(body.includes("<D:collection/>"));
+			assert.ok(body.includes("<D:getlastmodified>"));
+		});
+
+		it("returns children with size and modification time at depth 1", async () => {
+			const response = await request("PROPFIND", `${CARD_PATH}/DCIM/`, {Depth: "1"});
+			const body = await response.text();
+
+			assert.equal(response.status, 207);
+			assert.equal(body.match(/<D:response>/g)?.length, 2);
+			assert.ok(body.includes(`/DCIM/IMG_0001.JPG</D:href>`));
+			assert.ok(body.includes(`<D:getcontentlength>${content.length}</D:getcontentlength>`));
+			assert.ok(body.includes(`<D:getlastmodified>${photo.modificationTime.toUTCString()}</D:getlastmodified>`));
+			assert.ok(!body.includes("/DCIM/./") && !body.includes("/DCIM/../"));
+		});
+	});
+
+	describe("GET", () => {
+		it("returns whole file", async () => {
+			const response = await request("GET", `${CARD_PATH}/DCIM/IMG_0001.JPG`);
+
+			assert.equal(response.status, 200);
+			assert.equal(response.headers.get("accept-ranges"), "bytes");
+			assert.equal(response.headers.get("last-modified"), photo.modificationTime.toUTCString());
+			assert.deepEqual(Buffer.from(await response.arrayBuffer()), content);
+		});
+
+		it("returns requested range with 206", async () => {
+			const response = await request("GET", `${CARD_PATH}/DCIM/IMG_0001.JPG`, {Range: "bytes=10-19"});
+
+			assert.equal(response.status, 206);
+			assert.equal(response.headers.get("content-range"), `bytes 10-19/${content.length}`);
+			assert.deepEqual(Buffer.from(await response.arrayBuffer()), content.subarray(10, 20));
+		});
+
+		it("returns suffix range", async () => {
+			const response = await request("GET", `${CARD_PATH}/DCIM/IMG_0001.JPG`, {Range: "bytes=-5"});
+
+			assert.equal(response.status, 206);
+			assert.equal(response.headers.get("content-range"), `bytes ${content.length - 5}-${content.length - 1}/${content.length}`);
+			assert.deepEqual(Buffer.from(await response.arrayBuffer()), content.subarray(content.length - 5));
+		});
+
+		it("refuses range past the end with 416", async () => {
+			const response = await request("GET", `${CARD_PATH}/DCIM/IMG_0001.JPG`, {Range: `bytes=${content.length}-`});
+			await response.arrayBuffer();
+
+			assert.equal(response.status, 416);
+			assert.equal(response.headers.get("content-range"), `bytes */${content.length}`);
+		});
+
+		it("returns headers without body for HEAD", async () => {
+			const response = await request("HEAD", `${CARD_PATH}/DCIM/IMG_0001.JPG`);
+
+			assert.equal(response.status, 200);
+			assert.equal(response.headers.get("content-length"), String(content.length));
+			assert.equal((await response.arrayBuffer()).byteLength, 0);
+		});
+
+		it("returns 404 for unknown card and missing file", async () => {
+			const unknownCard = await request("GET", "/cards/aa:bb:cc:dd:ee:ff/DCIM/IMG_0001.JPG");
+			const missingFile = await request("GET", `${CARD_PATH}/DCIM/MISSING.JPG`);
+			await unknownCard.arrayBuffer();
+			await missingFile.arrayBuffer();
+
+			assert.equal(unknownCard.status, 404);
+			assert.equal(missingFile.status, 404);
+		});
+
+		it("returns 400 for malformed percent-encoding", async () => {
+			const response = await request("GET", `${CARD_PATH}/DCIM/%zz`);
+			await response.arrayBuffer();
+
+			assert.equal(response.status, 400);
+		});
+	});
+
+	describe("PUT, DELETE and MKCOL", () => {
+		it("creates and replaces file", async () => {
+			const created = await request("PUT", `${CARD_PATH}/DCIM/NOTE.TXT`, {}, "first");
+			const replaced = await request("PUT", `${CARD_PATH}/DCIM/NOTE.TXT`, {}, "second version");
+			const read = await request("GET", `${CARD_PATH}/DCIM/NOTE.TXT`);
+
+			assert.equal(created.status, 201);
+			assert.equal(replaced.status, 204);
+			assert.equal(await read.text(), "second version");
+		});
+
+		it("refuses upload larger than maxUploadSize with 413", async () => {
+			const response = await request("PUT", `${CARD_PATH}/DCIM/BIG.BIN`, {}, Buffer.alloc(5000));
+			await response.arrayBuffer();
+			const missing = await request("GET", `${CARD_PATH}/DCIM/BIG.BIN`);
+			await missing.arrayBuffer();
+
+			assert.equal(response.status, 413);
+			assert.equal(missing.status, 404);
+		});
+
+		it("creates and deletes collection", async () => {
+			const created = await request("MKCOL", `${CARD_PATH}/DCIM/101MEDIA`);
+			const duplicate = await request("MKCOL", `${CARD_PATH}/DCIM/101MEDIA`);
+			await request("PUT", `${CARD_PATH}/DCIM/101MEDIA/A.JPG`, {}, "a");
+			const deleted = await request("DELETE", `${CARD_PATH}/DCIM/101MEDIA`);
+			const listing = await request("PROPFIND", `${CARD_PATH}/DCIM/101MEDIA`, {Depth: "0"});
+			await duplicate.arrayBuffer();
+			await listing.arrayBuffer();
+
+			assert.equal(created.status, 201);
+			assert.equal(duplicate.status, 405);
+			assert.equal(deleted.status, 204);
+			assert.equal(listing.status, 404);
+		});
+
+		it("deletes file", async () => {
+			await request("PUT", `${CARD_PATH}/DCIM/DELETE.TXT`, {}, "x");
+			const deleted = await request("DELETE", `${CARD_PATH}/DCIM/DELETE.TXT`);
+			const read = await request("GET", `${CARD_PATH}/DCIM/DELETE.TXT`);
+			await read.arrayBuffer();
+
+			assert.equal(deleted.status, 204);
+			assert.equal(read.status, 404);
+		});
+	});
+});
@@ -0,0 +1,197 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+const SECTOR_SIZE = 512;
+const PARTITION_START = 63;
+const PARTITION_SECTORS = 2048;
+const FAT_OFFSET = 24;
+const FAT_LENGTH = 8;
+const CLUSTER_HEAP_OFFSET = 32;
+const CLUSTER_COUNT = 1000;
+const ENTRY_SIZE = 32;
+
+const BITMAP_CLUSTER = 2;
+const UP_CASE_CLUSTER = 3;
+const ROOT_CLUSTERS = [4, 6];
+const DCIM_CLUSTER = 5;
+const CONTIGUOUS_CLUSTER = 10;
+const CHAINED_CLUSTERS = [20, 22, 21, 30];
+const README_CLUSTER = 40;
+
+/**
+ * Size of the image in blocks, including MBR and gap before the partition.
+ */
+export const EXFAT_IMAGE_BLOCKS = PARTITION_START + PARTITION_SECTORS;
+
+const createContent = (length: number, seed: number): Buffer => Buffer.from(Array.from({length}, (_, i) => (i * seed + (i >> 8)) % 256));
+
+/**
+ * Content of /DCIM/CONTIG.JPG, stored in consecutive clusters with NoFatChain flag.
+ */
+export const EXFAT_CONTIGUOUS_CONTENT = createContent(2000, 7);
+
+/**
+ * Content of /DCIM/CHAINED.JPG, stored in clusters out of order linked by FAT.
+ */
+export const EXFAT_CHAINED_CONTENT = createContent(1800, 13);
+
+/**
+ * Content of /readme.txt in the root directory.
+ */
+export const EXFAT_README_CONTENT = Buffer.from("Hello exFAT\n");
+
+/**
+ * Modification time of all files, stored as 2024-05-06 07:08:10.50 with UTC offset +02:00.
+ */
+export const EXFAT_MODIFICATION_TIME = new Date("2024-05-06T05:08:10.500Z");
+
+const TIMESTAMP = ((2024 - 1980) << 25 | 5 << 21 | 6 << 16 | 7 << 11 | 8 << 5 | 10 / 2) >>> 0;
+const INCREMENT_10MS = 50;
+const UTC_OFFSET = 0x80 | 8;
+
+const checksum16 = (entrySet: Buffer): number => {
+	let checksum = 0;
+	for(let i = 0; i < entrySet.length; i++) {
+		if(i !== 2 && i !== 3) {
+			checksum = (((checksum & 1) ? 0x8000 : 0) + (checksum >> 1) + entrySet[i]) & 0xFFFF;
+		}
+	}
+	return checksum;
+}
+
+/**
+ * File entry, Stream Extension and File Name entries of one file or directory.
+ */
+const createEntrySet = (name: string, isDirectory: boolean, firstCluster: number, size: number, contiguous: boolean): Buffer => {
+	const nameEntries = Math.ceil(name.length / 15);
+	const entrySet = Buffer.alloc((2 + nameEntries) * ENTRY_SIZE);
+
+	entrySet[0] = 0x85;
+	entrySet[1] = 1 + nameEntries;
+	entrySet.writeUInt16LE(isDirectory ? 0x10 : 0x20, 4);
+	for(const offset of [8, 12, 16]) {
+		entrySet.writeUInt32LE(TIMESTAMP, offset);
+	}
+	entrySet[20] = INCREMENT_10MS;
+	entrySet[21] = INCREMENT_10MS;
+	entrySet[22] = UTC_OFFSET;
+	entrySet[23] = UTC_OFFSET;
+	entrySet[24] = UTC_OFFSET;
+
+	const stream = entrySet.subarray(ENTRY_SIZE);
+	stream[0] = 0xC0;
+	stream[1] = contiguous ? 0x03 : 0x01;
+	stream[3] = name.length;
+	stream.writeBigUInt64LE(BigInt(size), 8);
+	stream.writeUInt32LE(firstCluster, 20);
+	stream.writeBigUInt64LE(BigInt(size), 24);
+
+	for(let i = 0; i < nameEntries; i++) {
+		const entry = entrySet.subarray((2 + i) * ENTRY_SIZE);
+		entry[0] = 0xC1;
+		entry.write(name.slice(i * 15, (i + 1) * 15), 2, "utf16le");
+	}
+
+	entrySet.writeUInt16LE(checksum16(entrySet), 2);
+	return entrySet;
+}
+
+/**
+ * Writes exFAT volume (1 MiB, one sector per cluster) with fixed content in single MBR partition to new temporary
+ * directory. Root directory and /DCIM/CHAINED.JPG use FAT chains, /DCIM directory and /DCIM/CONTIG.JPG are
+ * contiguous. Up-case Table maps only a-z, so names are compared case-insensitively.
+ *
+ * @returns Path of the image, remove its directory with removeFatImage.
+ */
+export const createExFatImage = async (): Promise<string> => {
+	const image = Buffer.alloc(EXFAT_IMAGE_BLOCKS * SECTOR_SIZE);
+	const partition = image.subarray(PARTITION_START * SECTOR_SIZE);
+	const cluster = (n: number): Buffer => partition.subarray((CLUSTER_HEAP_OFFSET + n - 2) * SECTOR_SIZE, (CLUSTER_HEAP_OFFSET + n - 1) * SECTOR_SIZE);
+
+	// MBR with one partition of type shared by NTFS and exFAT
+	const entry = 446;
+	image[entry + 4] = 0x07;
+	image.writeUInt32LE(PARTITION_START, entry + 8);
+	image.writeUInt32LE(PARTITION_SECTORS, entry + 12);
+	image.writeUInt16LE(0xAA55, 510);
+
+	partition.set([0xEB, 0x76, 0x90], 0);
+	partition.write("EXFAT   ", 3, "ascii");
+	partition.writeBigUInt64LE(BigInt(PARTITION_START), 64);
+	partition.writeBigUInt64LE(BigInt(PARTITION_SECTORS), 72);
+	partition.writeUInt32LE(FAT_OFFSET, 80);
+	partition.writeUInt32LE(FAT_LENGTH, 84);
+	partition.writeUInt32LE(CLUSTER_HEAP_OFFSET, 88);
+	partition.writeUInt32LE(CLUSTER_COUNT, 92);
+	partition.writeUInt32LE(ROOT_CLUSTERS[0], 96);
+	partition.writeUInt16LE(0x0100, 104); // FileSystemRevision 1.00
+	partition[108] = 9; // BytesPerSectorShift
+	partition[109] = 0; // SectorsPerClusterShift
+	partition[110] = 1; // NumberOfFats
+	partition.writeUInt16LE(0xAA55, 510);
+
+	// Chains of clusters which do not have NoFatChain flag, others stay free in the FAT
+	const fat = partition.subarray(FAT_OFFSET * SECTOR_SIZE, (FAT_OFFSET + FAT_LENGTH) * SECTOR_SIZE);
+	fat.writeUInt32LE(0xFFFFFFF8, 0);
+	fat.writeUInt32LE(0xFFFFFFFF, 4);
+	for(const chain of [[BITMAP_CLUSTER], [UP_CASE_CLUSTER], ROOT_CLUSTERS, CHAINED_CLUSTERS, [README_CLUSTER]]) {
+		chain.forEach((n, index) => fat.writeUInt32LE(chain[index + 1] ?? 0xFFFFFFFF, n * 4));
+	}
+
+	const contiguousClusters = Array.from({length: Math.ceil(EXFAT_CONTIGUOUS_CONTENT.length / SECTOR_SIZE)}, (_, i) => CONTIGUOUS_CLUSTER + i);
+	const bitmap = cluster(BITMAP_CLUSTER);
+	for(const n of [BITMAP_CLUSTER, UP_CASE_CLUSTER, ...ROOT_CLUSTERS, DCIM_CLUSTER, ...contiguousClusters, ...CHAINED_CLUSTERS, README_CLUSTER]) {
+		bitmap[(n - 2) >> 3] |= 1 << ((n - 2) & 7);
+	}
+
+	// Compressed table - identity up to "a", then a-z mapped to A-Z, rest is identity
+	const upCase = Buffer.alloc(2 * 28);
+	upCase.writeUInt16LE(0xFFFF, 0);
+	upCase.writeUInt16LE(0x61, 2);
+	for(let i = 0; i < 26; i++) {
+		upCase.writeUInt16LE(0x41 + i, 4 + i * 2);
+	}
+	upCase.copy(cluster(UP_CASE_CLUSTER));
+	let upCaseChecksum = 0;
+	for(const byte of upCase) {
+		upCaseChecksum = ((upCaseChecksum & 1 ? 0x80000000 : 0) + (upCaseChecksum >>> 1) + byte) >>> 0;
+	}
+
+	EXFAT_CONTIGUOUS_CONTENT.copy(partition, (CLUSTER_HEAP_OFFSET + CONTIGUOUS_CLUSTER - 2) * SECTOR_SIZE);
+	CHAINED_CLUSTERS.forEach((n, index) => EXFAT_CHAINED_CONTENT.copy(cluster(n), 0, index * SECTOR_SIZE, (index + 1) * SECTOR_SIZE));
+	EXFAT_README_CONTENT.copy(cluster(README_CLUSTER));
+
+	// Critical primary entries and DCIM in the first cluster of root, rest of it is deleted entries
+	const root = cluster(ROOT_CLUSTERS[0]);
+	root[0] = 0x83;
+	root[1] = 4;
+	root.write("CARD", 2, "utf16le");
+	root[32] = 0x81;
+	root.writeUInt32LE(BITMAP_CLUSTER, 32 + 20);
+	root.writeBigUInt64LE(BigInt(Math.ceil(CLUSTER_COUNT / 8)), 32 + 24);
+	root[64] = 0x82;
+	root.writeUInt32LE(upCaseChecksum, 64 + 4);
+	root.writeUInt32LE(UP_CASE_CLUSTER, 64 + 20);
+	root.writeBigUInt64LE(BigInt(upCase.length), 64 + 24);
+	const dcim = createEntrySet("DCIM", true, DCIM_CLUSTER, SECTOR_SIZE, true);
+	dcim.copy(root, 96);
+	for(let offset = 96 + dcim.length; offset < SECTOR_SIZE; offset += ENTRY_SIZE) {
+		root[offset] = 0x05;
+	}
+
+	// Second cluster of root is reached only through the FAT
+	createEntrySet("readme.txt", false, README_CLUSTER, EXFAT_README_CONTENT.length, false).copy(cluster(ROOT_CLUSTERS[1]));
+
+	const dcimEntries = Buffer.concat([
+		createEntrySet("CONTIG.JPG", false, CONTIGUOUS_CLUSTER, EXFAT_CONTIGUOUS_CONTENT.length, true),
+		createEntrySet("CHAINED.JPG", false, CHAINED_CLUSTERS[0], EXFAT_CHAINED_CONTENT.length, false),
+	]);
+	dcimEntries.copy(cluster(DCIM_CLUSTER));
+
+	const directory = await fs.mkdtemp(path.join(os.tmpdir(), "wifi-sdcf-test-"));
+	const imagePath = path.join(directory, "card.img");
+	await fs.writeFile(imagePath, image);
+
+	return imagePath;
+}
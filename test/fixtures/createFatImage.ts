@@ -0,0 +1,69 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+const SECTOR_SIZE = 512;
+const PARTITION_START = 63;
+const PARTITION_SECTORS = 8192;
+const RESERVED_SECTORS = 1;
+const SECTORS_PER_FAT = 32;
+const ROOT_ENTRIES = 512;
+
+/**
+ * Size of the image in blocks, including MBR and gap before the partition.
+ */
+export const FAT_IMAGE_BLOCKS = PARTITION_START + PARTITION_SECTORS;
+
+/**
+ * Writes empty FAT16 volume (4 MiB, one sector per cluster) in single MBR partition to new temporary directory.
+ *
+ * @returns Path of the image, remove its directory with removeFatImage.
+ */
+export const createFatImage = async (): Promise<string> => {
+	const image = Buffer.alloc(FAT_IMAGE_BLOCKS * SECTOR_SIZE);
+
+	// MBR with one FAT16 partition
+	const entry = 446;
+	image[entry + 4] = 0x06;
+	image.writeUInt32LE(PARTITION_START, entry + 8);
+	image.writeUInt32LE(PARTITION_SECTORS, entry + 12);
+	image.writeUInt16LE(0xAA55, 510);
+
+	const boot = image.subarray(PARTITION_START * SECTOR_SIZE, (PARTITION_START + 1) * SECTOR_SIZE);
+	boot.set([0xEB, 0x3C, 0x90], 0);
+	boot.write("MSWIN4.1", 3, "ascii");
+	boot.writeUInt16LE(SECTOR_SIZE, 11);
+	boot[13] = 1; // Sectors per cluster
+	boot.writeUInt16LE(RESERVED_SECTORS, 14);
+	boot[16] = 2; // Number of FATs
+	boot.writeUInt16LE(ROOT_ENTRIES, 17);
+	boot.writeUInt16LE(PARTITION_SECTORS, 19);
+	boot[21] = 0xF8; // Media descriptor
+	boot.writeUInt16LE(SECTORS_PER_FAT, 22);
+	boot.writeUInt16LE(63, 24);
+	boot.writeUInt16LE(255, 26);
+	boot.writeUInt32LE(PARTITION_START, 28);
+	boot[36] = 0x80;
+	boot[38] = 0x29;
+	boot.writeUInt32LE(0x1234, 39);
+	boot.write("NO NAME    ", 43, "ascii");
+	boot.write("FAT16   ", 54, "ascii");
+	boot.writeUInt16LE(0xAA55, 510);
+
+	// Media descriptor and end of chain marker in clusters 0 and 1 of both FATs
+	for(let fat = 0; fat < 2; fat++) {
+		const offset = (PARTITION_START + RESERVED_SECTORS + fat * SECTORS_PER_FAT) * SECTOR_SIZE;
+		image.set([0xF8, 0xFF, 0xFF, 0xFF], offset);
+	}
+
+	const directory = await fs.mkdtemp(path.join(os.tmpdir(), "wifi-sdcf-test-"));
+	const imagePath = path.join(directory, "card.img");
+	await fs.writeFile(imagePath, image);
+
+	return imagePath;
+}
+
+
+export const removeFatImage = async (imagePath: string): Promise<void> => {
+	await fs.rm(path.dirname(imagePath), {recursive: true, force: true});
+}